@@ -1,5 +1,8 @@
 import * as Async from '../src/async'
 import * as Koka from '../src/koka'
+import * as Result from '../src/result'
+import * as Task from '../src/task'
+import { TestRuntime } from '../src/test-runtime'
 
 describe('Async', () => {
     it('should handle basic async operations', async () => {
@@ -100,4 +103,218 @@ describe('Async', () => {
         const result = await Koka.runAsync(test())
         expect(result).toEqual({ nullValue: null, undefinedValue: undefined })
     })
+
+    it('should expose the abort signal of current run', async () => {
+        const controller = new AbortController()
+
+        function* test() {
+            const signal = yield* Async.signal()
+            return signal
+        }
+
+        const result = await Koka.runAsync(test(), { signal: controller.signal })
+        expect(result).toBe(controller.signal)
+    })
+
+    it('should expose a signal that never aborts when no signal was provided', async () => {
+        function* test() {
+            const signal = yield* Async.signal()
+            return signal.aborted
+        }
+
+        expect(Koka.runSync(test())).toBe(false)
+        expect(await Koka.runAsync(test())).toBe(false)
+    })
+
+    it('should create typed abort error', () => {
+        const error = new Async.AbortError('unmounted')
+
+        expect(error).toBeInstanceOf(Error)
+        expect(error).toBeInstanceOf(Async.AbortError)
+        expect(error.name).toBe('AbortError')
+        expect(error.reason).toBe('unmounted')
+        expect(new Async.AbortError(new Error('timeout')).message).toBe('timeout')
+    })
+})
+
+describe('Async.sleep', () => {
+    it('should sleep with the system clock by default', async () => {
+        jest.useFakeTimers('modern')
+
+        try {
+            const promise = Koka.runAsync(Async.sleep(10))
+
+            jest.advanceTimersByTime(9)
+            expect(jest.getTimerCount()).toBe(1)
+
+            jest.advanceTimersByTime(1)
+            expect(jest.getTimerCount()).toBe(0)
+            await promise
+        } finally {
+            jest.useRealTimers()
+        }
+    })
+
+    it('should sleep with the provided clock', async () => {
+        const runtime = new TestRuntime()
+        const steps = [] as number[]
+
+        function* test() {
+            const clock = yield* Async.getClock()
+            yield* Async.sleep(100)
+            steps.push(clock.now())
+            yield* Async.sleep(50)
+            steps.push(clock.now())
+        }
+
+        const run = runtime.run(test)
+
+        await runtime.advanceBy(99)
+        expect(steps).toEqual([])
+
+        await runtime.advanceBy(1)
+        expect(steps).toEqual([100])
+
+        await runtime.advanceBy(50)
+        await run.promise
+        expect(steps).toEqual([100, 150])
+    })
+
+    it('should clear the timer when the generator is cleaned up', async () => {
+        const runtime = new TestRuntime()
+        const controller = new AbortController()
+
+        function* test() {
+            yield* Async.sleep(100)
+        }
+
+        const run = runtime.run(test, { signal: controller.signal })
+
+        await runtime.flush()
+        expect(runtime.clock.pendingTimers).toBe(1)
+
+        controller.abort()
+
+        await expect(run.promise).rejects.toBeInstanceOf(Async.AbortError)
+        expect(runtime.clock.pendingTimers).toBe(0)
+    })
+})
+
+describe('Async.delay', () => {
+    it('should run the effector after the delay', async () => {
+        const runtime = new TestRuntime()
+        let started = false
+
+        function* test() {
+            started = true
+            return yield* Async.await(Promise.resolve('done'))
+        }
+
+        const run = runtime.run(Async.delay(test, 100))
+
+        await runtime.advanceBy(50)
+        expect(started).toBe(false)
+
+        await runtime.advanceBy(50)
+        expect(started).toBe(true)
+        expect(await run.promise).toBe('done')
+    })
+
+    it('should compose with Task.race', async () => {
+        const runtime = new TestRuntime()
+
+        function* primary(ms: number) {
+            yield* Async.sleep(ms)
+            return 'primary'
+        }
+
+        function* backup() {
+            return 'backup'
+        }
+
+        const race = (ms: number) => runtime.run(Task.race([primary(ms), Async.delay(backup, 100)]))
+
+        const fast = race(50)
+        await runtime.advanceBy(50)
+        expect(await fast.promise).toBe('primary')
+        expect(runtime.clock.pendingTimers).toBe(0)
+
+        const slow = race(500)
+        await runtime.advanceBy(100)
+        expect(await slow.promise).toBe('backup')
+        expect(runtime.clock.pendingTimers).toBe(0)
+    })
+})
+
+describe('Async.timeout', () => {
+    it('should return the result when finished before the deadline', async () => {
+        const runtime = new TestRuntime()
+
+        function* test() {
+            yield* Async.sleep(50)
+            return 'done'
+        }
+
+        const run = runtime.run(Result.wrap(Async.timeout(test, 100)))
+
+        await runtime.advanceBy(50)
+
+        expect(await run.promise).toEqual(Result.ok('done'))
+        expect(runtime.clock.pendingTimers).toBe(0)
+    })
+
+    it('should throw timeout error and clean up the generator when the deadline passes', async () => {
+        const runtime = new TestRuntime()
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                yield* Async.sleep(200)
+                steps.push('should not reach here')
+                return 'done'
+            } finally {
+                steps.push('finally')
+            }
+        }
+
+        const run = runtime.run(Result.wrap(Async.timeout(test, 100)))
+
+        await runtime.advanceBy(100)
+
+        expect(await run.promise).toEqual(new Async.TimeoutErr({ ms: 100 }))
+        expect(steps).toEqual(['finally'])
+        expect(runtime.clock.pendingTimers).toBe(0)
+    })
+
+    it('should be handled as a typed error effect', async () => {
+        const runtime = new TestRuntime()
+
+        function* test() {
+            yield* Async.await(new Promise(() => {}))
+            return 'done'
+        }
+
+        const run = runtime.run(
+            Koka.try(Async.timeout(test, 100)).handle({
+                TimeoutErr: ({ ms }) => `timed out after ${ms}ms`,
+            }),
+        )
+
+        await runtime.advanceBy(100)
+
+        expect(await run.promise).toBe('timed out after 100ms')
+    })
+
+    it('should forward rejected promises to the generator', async () => {
+        function* test() {
+            try {
+                yield* Async.await(Promise.reject(new Error('failed')))
+                return 'should not reach here'
+            } catch (error) {
+                return `Caught: ${(error as Error).message}`
+            }
+        }
+
+        expect(await Result.runAsync(Async.timeout(test, 100))).toEqual(Result.ok('Caught: failed'))
+    })
 })
@@ -0,0 +1,213 @@
+import * as Koka from '../src/koka'
+import * as Cause from '../src/cause'
+import * as Result from '../src/result'
+import * as Async from '../src/async'
+import * as Err from '../src/err'
+import * as Task from '../src/task'
+
+class NotFoundErr extends Err.Err('NotFoundErr')<string> {}
+
+const never = () => new Promise<never>(() => {})
+
+describe('Result.runAsyncCause', () => {
+    it('should resolve with ok result', async () => {
+        function* test() {
+            return yield* Async.await(Promise.resolve(42))
+        }
+
+        expect(await Result.runAsyncCause(test)).toEqual(Result.ok(42))
+    })
+
+    it('should resolve with fail cause for err effect', async () => {
+        function* test() {
+            yield* Async.await(Promise.resolve())
+            throw yield* Err.throw(new NotFoundErr('user'))
+        }
+
+        expect(await Result.runAsyncCause(test)).toEqual(Cause.failure(Cause.fail(new NotFoundErr('user'))))
+    })
+
+    it('should resolve with die cause for thrown error', async () => {
+        function* test() {
+            yield* Async.await(Promise.resolve())
+            throw new Error('defect')
+        }
+
+        expect(await Result.runAsyncCause(test)).toEqual(Cause.failure(Cause.die(new Error('defect'))))
+    })
+
+    it('should resolve with die cause for unhandled effect', async () => {
+        function* test() {
+            yield { type: 'unknown' } as any
+        }
+
+        const exit = await Result.runAsyncCause(test)
+
+        expect(exit).toEqual(Cause.failure(Cause.die(expect.any(Koka.UnhandledEffectError))))
+    })
+
+    it('should resolve with interrupt cause when aborted', async () => {
+        const controller = new AbortController()
+
+        function* test() {
+            yield* Async.await(never())
+        }
+
+        const promise = Result.runAsyncCause(test, { signal: controller.signal })
+
+        controller.abort()
+
+        expect(await promise).toEqual(Cause.failure(Cause.interrupt(undefined)))
+    })
+})
+
+describe('Task.concurrent causes', () => {
+    it('should collect every failure settled in the batch', async () => {
+        const first = new Error('first')
+        const second = new Error('second')
+
+        function* fail(error: Error) {
+            return yield* Async.await(Promise.reject<string>(error))
+        }
+
+        function* pending() {
+            return yield* Async.await(never())
+        }
+
+        const exit = await Result.runAsyncCause(Task.all([fail(first), fail(second), pending()]))
+
+        expect(exit).toEqual(
+            Cause.failure({
+                type: 'parallel',
+                causes: [Cause.die(first), Cause.die(second), Cause.interrupt()],
+            }),
+        )
+    })
+
+    it('should keep throwing the first failure', async () => {
+        const first = new Error('first')
+
+        function* fail(error: Error) {
+            return yield* Async.await(Promise.reject<string>(error))
+        }
+
+        await expect(Result.runAsync(Task.all([fail(first), fail(new Error('second'))]))).rejects.toBe(first)
+    })
+
+    it('should collect err effects and interruptions', async () => {
+        const steps = [] as string[]
+
+        function* fail() {
+            yield* Async.await(Promise.resolve())
+            throw yield* Err.throw(new NotFoundErr('user'))
+        }
+
+        function* pending() {
+            try {
+                return yield* Async.await(never())
+            } finally {
+                steps.push('interrupted')
+            }
+        }
+
+        const exit = await Result.runAsyncCause(Task.all([pending(), fail()]))
+
+        expect(exit).toEqual(
+            Cause.failure({
+                type: 'parallel',
+                causes: [Cause.fail(new NotFoundErr('user')), Cause.interrupt()],
+            }),
+        )
+        expect(steps).toEqual(['interrupted'])
+    })
+
+    it('should keep the cause of nested tasks', async () => {
+        const error = new Error('inner')
+
+        function* inner() {
+            return yield* Task.all([Async.await(Promise.reject<string>(error)), Async.await(never())])
+        }
+
+        const exit = await Result.runAsyncCause(Task.all([inner(), Async.await(never())]))
+
+        expect(exit).toEqual(
+            Cause.failure({
+                type: 'parallel',
+                causes: [
+                    {
+                        type: 'parallel',
+                        causes: [Cause.die(error), Cause.interrupt()],
+                    },
+                    Cause.interrupt(),
+                ],
+            }),
+        )
+    })
+
+    it('should not record causes when tasks succeed', async () => {
+        function* task(value: number) {
+            return yield* Async.await(Promise.resolve(value))
+        }
+
+        expect(await Result.runAsyncCause(Task.race([task(1), Async.await(never())]))).toEqual(Result.ok(1))
+    })
+    it('should not report the cause of an earlier run for a reused err', async () => {
+        const notFound = new NotFoundErr('user')
+
+        function* fails() {
+            yield* Async.await(Promise.resolve())
+            throw yield* Err.throw(notFound)
+        }
+
+        const concurrent = await Result.runAsyncCause(Task.all([Async.await(never()), fails()]))
+
+        expect(concurrent).toEqual(Cause.failure(Cause.parallel([Cause.fail(notFound), Cause.interrupt()])))
+
+        await Result.runAsync(Task.all([Async.await(never()), fails()]))
+
+        expect(await Result.runAsyncCause(fails)).toEqual(Cause.failure(Cause.fail(notFound)))
+    })
+})
+
+describe('Cause helpers', () => {
+    const cause = Cause.parallel<NotFoundErr>([
+        Cause.fail(new NotFoundErr('user')),
+        Cause.parallel([Cause.die(new Error('defect')), Cause.interrupt()]),
+    ])
+
+    it('should flatten causes', () => {
+        expect(Cause.flatten(cause)).toEqual([
+            Cause.fail(new NotFoundErr('user')),
+            Cause.die(new Error('defect')),
+            Cause.interrupt(),
+        ])
+    })
+
+    it('should return failures and defects', () => {
+        expect(Cause.failures(cause)).toEqual([new NotFoundErr('user')])
+        expect(Cause.defects(cause)).toEqual([new Error('defect')])
+        expect(Cause.isInterrupted(cause)).toBe(true)
+        expect(Cause.isInterrupted(Cause.die(new Error('defect')))).toBe(false)
+    })
+
+    it('should squash cause into the first failure', () => {
+        expect(Cause.squash(cause)).toEqual(new NotFoundErr('user'))
+        expect(Cause.squash(Cause.interrupt('reason'))).toBeInstanceOf(Async.AbortError)
+    })
+
+    it('should not wrap single cause in parallel', () => {
+        expect(Cause.parallel([Cause.interrupt()])).toEqual(Cause.interrupt())
+    })
+
+    it('should render cause', () => {
+        expect(Cause.pretty(cause)).toBe(
+            [
+                'Parallel',
+                '  Fail({"type":"err","name":"NotFoundErr","error":"user"})',
+                '  Parallel',
+                '    Die(Error: defect)',
+                '    Interrupt',
+            ].join('\n'),
+        )
+    })
+})
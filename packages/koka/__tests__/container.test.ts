@@ -0,0 +1,237 @@
+import * as Koka from '../src/koka'
+import * as Container from '../src/container'
+import * as Ctx from '../src/ctx'
+import * as Opt from '../src/opt'
+import * as Err from '../src/err'
+import * as Async from '../src/async'
+import * as Task from '../src/task'
+import * as Result from '../src/result'
+
+class Config extends Ctx.Ctx('Config')<{ url: string }> {}
+class Database extends Ctx.Ctx('Database')<{ query: (sql: string) => string }> {}
+class UserRepo extends Ctx.Ctx('UserRepo')<{ find: (id: number) => string }> {}
+class Debug extends Opt.Opt('Debug')<boolean> {}
+class ConnectErr extends Err.Err('ConnectErr')<string> {}
+
+const createContainer = (steps: string[]) => {
+    return Container.create()
+        .register(Config, () => {
+            steps.push('build Config')
+            return { url: 'db://local' }
+        })
+        .register(Database, function* () {
+            const config = yield* Ctx.get(Config)
+            steps.push('build Database')
+            return {
+                query: (sql: string) => `${config.url}: ${sql}`,
+            }
+        })
+        .register(UserRepo, function* () {
+            const database = yield* Ctx.get(Database)
+            steps.push('build UserRepo')
+            return {
+                find: (id: number) => database.query(`select ${id}`),
+            }
+        })
+}
+
+function* findUser(id: number) {
+    const repo = yield* Ctx.get(UserRepo)
+    return repo.find(id)
+}
+
+describe('Container.provide', () => {
+    it('should resolve transitive dependencies', () => {
+        const steps = [] as string[]
+
+        const result = Koka.runSync(Container.provide(findUser(1), createContainer(steps)))
+
+        expect(result).toBe('db://local: select 1')
+        expect(steps).toEqual(['build Config', 'build Database', 'build UserRepo'])
+    })
+
+    it('should only build the services which are used', () => {
+        const steps = [] as string[]
+
+        function* program() {
+            return (yield* Ctx.get(Config)).url
+        }
+
+        expect(Koka.runSync(Container.provide(program, createContainer(steps)))).toBe('db://local')
+        expect(steps).toEqual(['build Config'])
+    })
+
+    it('should build singletons once per container', () => {
+        const steps = [] as string[]
+        const container = createContainer(steps)
+
+        function* program() {
+            yield* findUser(1)
+            return yield* findUser(2)
+        }
+
+        Koka.runSync(Container.provide(program, container))
+        Koka.runSync(Container.provide(program, container))
+
+        expect(steps).toEqual(['build Config', 'build Database', 'build UserRepo'])
+    })
+
+    it('should build scoped services once per provide call', () => {
+        let builds = 0
+
+        const container = Container.create().register(Config, () => ({ url: `db://${++builds}` }), {
+            lifetime: 'scoped',
+        })
+
+        function* program() {
+            const first = yield* Ctx.get(Config)
+            const second = yield* Ctx.get(Config)
+            return first === second
+        }
+
+        expect(Koka.runSync(Container.provide(program, container))).toBe(true)
+        expect(Koka.runSync(Container.provide(program, container))).toBe(true)
+        expect(builds).toBe(2)
+    })
+
+    it('should build transient services on each access', () => {
+        let builds = 0
+
+        const container = Container.create().register(Config, () => ({ url: `db://${++builds}` }), {
+            lifetime: 'transient',
+        })
+
+        function* program() {
+            const first = yield* Ctx.get(Config)
+            const second = yield* Ctx.get(Config)
+            return [first.url, second.url]
+        }
+
+        expect(Koka.runSync(Container.provide(program, container))).toEqual(['db://1', 'db://2'])
+    })
+
+    it('should detect circular dependencies', () => {
+        const container = Container.create()
+            .register(Config, function* () {
+                yield* Ctx.get(UserRepo)
+                return { url: 'db://local' }
+            })
+            .register(Database, function* () {
+                yield* Ctx.get(Config)
+                return { query: (sql: string) => sql }
+            })
+            .register(UserRepo, function* () {
+                yield* Ctx.get(Database)
+                return { find: (id: number) => `${id}` }
+            })
+
+        let error: unknown
+
+        try {
+            Koka.runSync(Container.provide(findUser(1), container))
+        } catch (caught) {
+            error = caught
+        }
+
+        expect(error).toBeInstanceOf(Container.CircularDependencyError)
+        expect((error as Container.CircularDependencyError).path).toEqual([
+            'UserRepo',
+            'Database',
+            'Config',
+            'UserRepo',
+        ])
+        expect((error as Error).message).toBe('Circular dependency: UserRepo -> Database -> Config -> UserRepo')
+    })
+
+    it('should propagate effects of factories', async () => {
+        const container = Container.create()
+            .register(Config, function* () {
+                const url = yield* Async.await(Promise.resolve('db://remote'))
+                return { url }
+            })
+            .register(
+                Database,
+                function* () {
+                    const config = yield* Ctx.get(Config)
+
+                    if ((yield* Opt.get(Debug)) ?? false) {
+                        throw yield* Err.throw(new ConnectErr(config.url))
+                    }
+
+                    return { query: (sql: string) => `${config.url}: ${sql}` }
+                },
+                { lifetime: 'scoped' },
+            )
+
+        function* program() {
+            const database = yield* Ctx.get(Database)
+            return database.query('select 1')
+        }
+
+        expect(await Result.runAsync(Container.provide(program, container))).toEqual(Result.ok('db://remote: select 1'))
+
+        const failing = Koka.try(Container.provide(program, container)).handle({ Debug: true })
+
+        expect(await Result.runAsync(failing)).toEqual(new ConnectErr('db://remote'))
+    })
+
+    it('should not cache services whose factory failed', () => {
+        let attempts = 0
+
+        const container = Container.create().register(Config, () => {
+            if (++attempts === 1) {
+                throw new Error('not ready')
+            }
+
+            return { url: 'db://local' }
+        })
+
+        function* program() {
+            return (yield* Ctx.get(Config)).url
+        }
+
+        expect(() => Koka.runSync(Container.provide(program, container))).toThrow('not ready')
+        expect(Koka.runSync(Container.provide(program, container))).toBe('db://local')
+    })
+
+    it('should share scoped services between concurrent tasks', async () => {
+        let builds = 0
+
+        const container = Container.create().register(
+            Config,
+            function* () {
+                yield* Async.await(Promise.resolve())
+                return { url: `db://${++builds}` }
+            },
+            { lifetime: 'scoped' },
+        )
+
+        function* task() {
+            return (yield* Ctx.get(Config)).url
+        }
+
+        const result = await Koka.runAsync(Container.provide(Task.all([task, task]), container))
+
+        expect(result).toEqual(['db://1', 'db://1'])
+    })
+
+    it('should remove provided services from the effects', () => {
+        const container = createContainer([])
+
+        function* program() {
+            const repo = yield* Ctx.get(UserRepo)
+            const debug = yield* Opt.get(Debug)
+            return `${repo.find(1)} ${debug ?? false}`
+        }
+
+        expect(Koka.runSync(Container.provide(program, container))).toBe('db://local: select 1 false')
+
+        const partial = Container.create().register(UserRepo, function* () {
+            const database = yield* Ctx.get(Database)
+            return { find: (id: number) => database.query(`${id}`) }
+        })
+
+        // @ts-expect-error Database is not registered
+        expect(() => Koka.runSync(Container.provide(program, partial))).toThrow(Koka.UnhandledEffectError)
+    })
+})
@@ -1,5 +1,6 @@
 import * as Ctx from '../src/ctx'
 import * as Koka from '../src/koka'
+import * as Async from '../src/async'
 
 describe('Ctx', () => {
     it('should create context effect class', () => {
@@ -93,3 +94,55 @@ describe('Ctx', () => {
         expect(result).toBe('https://api.example.com with token secret-token')
     })
 })
+
+describe('Ctx with default', () => {
+    class LoggerCtx extends Ctx.Ctx('Logger')<(message: string) => string> {
+        static default = () => (message: string) => `default: ${message}`
+    }
+
+    function* log(message: string) {
+        const logger = yield* Ctx.get(LoggerCtx)
+        return logger(message)
+    }
+
+    it('should use the default when the ctx effect is not handled', () => {
+        expect(Koka.runSync(log('hello'))).toBe('default: hello')
+    })
+
+    it('should use the handled value instead of the default', () => {
+        const result = Koka.runSync(
+            Koka.try(log('hello')).handle({
+                Logger: (message: string) => `custom: ${message}`,
+            }),
+        )
+
+        expect(result).toBe('custom: hello')
+    })
+
+    it('should support effectful defaults', async () => {
+        class DatabaseCtx extends Ctx.Ctx('Database')<{ url: string }> {
+            static *default() {
+                const url = yield* Async.await(Promise.resolve('sqlite://memory'))
+                return { url }
+            }
+        }
+
+        function* test() {
+            const database = yield* Ctx.get(DatabaseCtx)
+            return database.url
+        }
+
+        expect(await Koka.runAsync(test)).toBe('sqlite://memory')
+    })
+
+    it('should require handlers for ctx effects without default', () => {
+        class TokenCtx extends Ctx.Ctx('Token')<string> {}
+
+        function* test() {
+            return yield* Ctx.get(TokenCtx)
+        }
+
+        // @ts-expect-error TokenCtx is not handled
+        expect(() => Koka.runSync(test)).toThrow(Koka.UnhandledEffectError)
+    })
+})
@@ -1,4 +1,6 @@
 import * as Err from '../src/err'
+import * as Koka from '../src/koka'
+import * as Task from '../src/task'
 import * as Result from '../src/result'
 
 describe('Err', () => {
@@ -52,3 +54,178 @@ describe('Err', () => {
         expect(result).toEqual(new ComplexError({ code: 404, message: 'Not found' }))
     })
 })
+
+class NotFoundErr extends Err.Err('NotFoundErr')<string> {}
+class TimeoutErr extends Err.Err('TimeoutErr')<number> {}
+class DomainErr extends Err.Err('DomainErr')<{ reason: string }> {}
+
+function* fetchUser(id: string) {
+    if (id === 'missing') {
+        throw yield* Err.throw(new NotFoundErr(id))
+    }
+
+    if (id === 'slow') {
+        throw yield* Err.throw(new TimeoutErr(1000))
+    }
+
+    return `user ${id}`
+}
+
+describe('Err.catchTag', () => {
+    it('should recover from the err effect with the given name', () => {
+        const gen: Generator<TimeoutErr, string> = Err.catchTag(fetchUser('missing'), 'NotFoundErr', (id) => {
+            return `guest ${id}`
+        })
+
+        expect(Result.runSync(gen)).toEqual(Result.ok('guest missing'))
+    })
+
+    it('should propagate other err effects', () => {
+        const gen = Err.catchTag(fetchUser('slow'), 'NotFoundErr', () => 'guest')
+
+        expect(Result.runSync(gen)).toEqual(new TimeoutErr(1000))
+    })
+
+    it('should return the value of effector when no err effect was thrown', () => {
+        expect(Result.runSync(Err.catchTag(fetchUser('1'), 'NotFoundErr', () => 'guest'))).toEqual(Result.ok('user 1'))
+    })
+
+    it('should support effectful handlers and keep going after recovery', () => {
+        const steps = [] as string[]
+
+        function* program() {
+            const user = yield* Err.catchTag(
+                function* () {
+                    try {
+                        return yield* fetchUser('missing')
+                    } finally {
+                        steps.push('cleanup')
+                    }
+                },
+                'NotFoundErr',
+                function* (id) {
+                    steps.push('recover')
+                    if (id === 'missing') {
+                        throw yield* Err.throw(new DomainErr({ reason: 'unknown user' }))
+                    }
+                    return 'guest'
+                },
+            )
+
+            steps.push('continue')
+
+            return user
+        }
+
+        expect(Result.runSync(program)).toEqual(new DomainErr({ reason: 'unknown user' }))
+        expect(steps).toEqual(['cleanup', 'recover'])
+    })
+
+    it('should only accept names of thrown err effects', () => {
+        // @ts-expect-error DomainErr is not thrown by fetchUser
+        Err.catchTag(fetchUser('1'), 'DomainErr', () => 'guest')
+    })
+})
+
+describe('Err.mapError', () => {
+    it('should transform the err effect with the given name', () => {
+        const gen: Generator<TimeoutErr | DomainErr, string> = Err.mapError(
+            fetchUser('missing'),
+            'NotFoundErr',
+            (id) => new DomainErr({ reason: `${id} not found` }),
+        )
+
+        expect(Result.runSync(gen)).toEqual(new DomainErr({ reason: 'missing not found' }))
+    })
+
+    it('should keep other err effects', () => {
+        const gen = Err.mapError(fetchUser('slow'), 'NotFoundErr', () => new DomainErr({ reason: 'not found' }))
+
+        expect(Result.runSync(gen)).toEqual(new TimeoutErr(1000))
+    })
+})
+
+describe('Err.catchAll', () => {
+    it('should recover from any err effect', () => {
+        const recover = (err: NotFoundErr | TimeoutErr) => {
+            return err.name === 'NotFoundErr' ? `not found: ${err.error}` : `timeout: ${err.error}`
+        }
+
+        const missing: Generator<never, string> = Err.catchAll(fetchUser('missing'), recover)
+        const slow = Err.catchAll(fetchUser('slow'), recover)
+
+        expect(Result.runSync(missing)).toEqual(Result.ok('not found: missing'))
+        expect(Result.runSync(slow)).toEqual(Result.ok('timeout: 1000'))
+    })
+})
+
+describe('Err.orElse', () => {
+    it('should run the fallback when any err effect was thrown', () => {
+        function* fromCache() {
+            return 'cached user'
+        }
+
+        const gen: Generator<never, string> = Err.orElse(fetchUser('slow'), fromCache)
+
+        expect(Result.runSync(gen)).toEqual(Result.ok('cached user'))
+        expect(Result.runSync(Err.orElse(fetchUser('1'), fromCache))).toEqual(Result.ok('user 1'))
+    })
+
+    it('should propagate err effects of the fallback', () => {
+        function* fallback() {
+            throw yield* Err.throw(new DomainErr({ reason: 'no fallback' }))
+        }
+
+        expect(Result.runSync(Err.orElse(fetchUser('missing'), fallback))).toEqual(
+            new DomainErr({ reason: 'no fallback' }),
+        )
+    })
+})
+
+describe('Err stack traces', () => {
+    afterEach(() => {
+        Err.configure({ captureStackTrace: false })
+    })
+
+    it('should not capture stack traces by default', () => {
+        const result = Result.runSync(fetchUser('missing'))
+
+        expect(Err.getStack(result as NotFoundErr)).toBeUndefined()
+        expect(Err.getTrace(result as NotFoundErr)).toEqual([])
+    })
+
+    it('should capture the stack where the err effect was thrown', () => {
+        Err.configure({ captureStackTrace: true })
+
+        const result = Result.runSync(fetchUser('missing')) as NotFoundErr
+
+        expect(Err.getStack(result)).toMatch(/^NotFoundErr\n/)
+        expect(Err.getStack(result)).toContain('err.test.ts')
+        expect(result).toEqual(new NotFoundErr('missing'))
+        expect(Object.keys(result)).toEqual(['type', 'name', 'error'])
+    })
+
+    it('should record the handlers the err effect passed through', () => {
+        Err.configure({ captureStackTrace: true })
+
+        function* loadProfile() {
+            return yield* fetchUser('missing')
+        }
+
+        const program = Koka.try(loadProfile).handle({
+            TimeoutErr: () => 'timeout',
+        })
+
+        const result = Result.runSync(program) as NotFoundErr
+
+        expect(Err.getTrace(result)).toEqual(['Koka.try(loadProfile)', 'Result.wrap'])
+    })
+
+    it('should record the task the err effect was thrown by', async () => {
+        Err.configure({ captureStackTrace: true })
+
+        const result = (await Result.runAsync(Task.all([fetchUser('1'), fetchUser('missing')]))) as NotFoundErr
+
+        expect(Err.getTrace(result)).toEqual(['Task.concurrent[1]', 'Result.wrap'])
+    })
+})
@@ -0,0 +1,75 @@
+import * as Koka from '../src/koka'
+import * as FiberRef from '../src/fiber-ref'
+import * as Fiber from '../src/fiber'
+import * as Async from '../src/async'
+import * as Task from '../src/task'
+
+const RequestId = FiberRef.make('RequestId', 'none')
+
+describe('FiberRef', () => {
+    it('should get the initial value, and the value set in the run', () => {
+        function* program() {
+            const initial = yield* FiberRef.get(RequestId)
+            yield* FiberRef.set(RequestId, 'a')
+            const updated = yield* FiberRef.update(RequestId, (id) => `${id}b`)
+            return [initial, updated, yield* FiberRef.get(RequestId)]
+        }
+
+        expect(Koka.runSync(program)).toEqual(['none', 'ab', 'ab'])
+        expect(Koka.runSync(FiberRef.get(RequestId))).toBe('none')
+    })
+
+    it('should run the effector with a local value', () => {
+        function* program() {
+            const local = yield* FiberRef.locally(RequestId, 'local', function* () {
+                yield* FiberRef.update(RequestId, (id) => `${id}!`)
+                return yield* FiberRef.get(RequestId)
+            })
+
+            return [local, yield* FiberRef.get(RequestId)]
+        }
+
+        expect(Koka.runSync(program)).toEqual(['local!', 'none'])
+    })
+
+    it('should inherit the values in the tasks of Task.concurrent and scope their updates to them', async () => {
+        function* task(id: string) {
+            const inherited = yield* FiberRef.get(RequestId)
+            yield* Async.await(Promise.resolve())
+            yield* FiberRef.set(RequestId, id)
+            yield* Async.await(Promise.resolve())
+            return `${inherited} -> ${yield* FiberRef.get(RequestId)}`
+        }
+
+        function* program() {
+            yield* FiberRef.set(RequestId, 'parent')
+            const results = yield* Task.all([task('a'), task('b')])
+            return [...results, yield* FiberRef.get(RequestId)]
+        }
+
+        expect(await Koka.runAsync(program)).toEqual(['parent -> a', 'parent -> b', 'parent'])
+    })
+
+    it('should inherit a copy of the values in forked fibers', async () => {
+        function* program() {
+            yield* FiberRef.set(RequestId, 'parent')
+
+            const fiber = yield* Fiber.fork(function* () {
+                const inherited = yield* FiberRef.get(RequestId)
+                yield* FiberRef.set(RequestId, 'fiber')
+                return inherited
+            })
+
+            return [yield* Fiber.join(fiber), yield* FiberRef.get(RequestId)]
+        }
+
+        expect(await Koka.runAsync(program)).toEqual(['parent', 'parent'])
+    })
+
+    it('should throw when the runner does not provide fiber refs', () => {
+        const gen = FiberRef.set(RequestId, 'a')
+
+        expect(gen.next()).toMatchObject({ value: { name: FiberRef.FiberRefsOpt.field } })
+        expect(() => gen.next()).toThrow('FiberRef [RequestId] is not supported by the runner')
+    })
+})
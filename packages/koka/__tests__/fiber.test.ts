@@ -0,0 +1,186 @@
+import * as Koka from '../src/koka'
+import * as Fiber from '../src/fiber'
+import * as Async from '../src/async'
+import * as Cause from '../src/cause'
+import * as Err from '../src/err'
+import * as Result from '../src/result'
+import { TestRuntime } from '../src/test-runtime'
+
+class NotFoundErr extends Err.Err('NotFoundErr')<string> {}
+
+describe('Fiber', () => {
+    it('should keep running after the forking effector is done', async () => {
+        const runtime = new TestRuntime()
+
+        function* command() {
+            return yield* Fiber.fork(function* () {
+                yield* Async.sleep(100)
+                return 'done'
+            })
+        }
+
+        const fiber = await runtime.run(command).promise
+
+        expect(fiber.exit).toBeUndefined()
+
+        const joined = runtime.run(Fiber.join(fiber))
+
+        await runtime.runAll()
+
+        expect(await joined.promise).toBe('done')
+        expect(runtime.now()).toBe(100)
+    })
+
+    it('should poll the exit of the fiber', async () => {
+        const runtime = new TestRuntime()
+
+        function* program() {
+            const fiber = yield* Fiber.fork(Async.sleep(10))
+            const before = yield* Fiber.poll(fiber)
+
+            yield* Async.sleep(20)
+
+            const after = yield* Fiber.poll(fiber)
+
+            return [before, after]
+        }
+
+        const run = runtime.run(program)
+
+        await runtime.runAll()
+
+        expect(await run.promise).toEqual([undefined, Result.ok(undefined)])
+    })
+
+    it('should interrupt the fiber and wait for its finally blocks', async () => {
+        const runtime = new TestRuntime()
+        const steps = [] as string[]
+
+        function* poller() {
+            try {
+                while (true) {
+                    yield* Async.sleep(10)
+                    steps.push(`poll ${runtime.now()}`)
+                }
+            } finally {
+                yield* Async.sleep(5)
+                steps.push(`closed ${runtime.now()}`)
+            }
+        }
+
+        function* program() {
+            const fiber = yield* Fiber.fork(poller)
+
+            yield* Async.sleep(25)
+
+            return yield* Fiber.interrupt(fiber)
+        }
+
+        const run = runtime.run(program)
+
+        await runtime.runAll()
+
+        const exit = await run.promise
+
+        expect(exit.type === 'failure' && Cause.isInterrupted(exit.cause)).toBe(true)
+        expect(steps).toEqual(['poll 10', 'poll 20', 'closed 30'])
+    })
+
+    it('should rethrow the err effect of the fiber when joining', async () => {
+        function* program() {
+            const fiber = yield* Fiber.fork(function* () {
+                yield* Async.await(Promise.resolve())
+                throw yield* Err.throw(new NotFoundErr('user'))
+            })
+
+            return yield* Fiber.join(fiber)
+        }
+
+        expect(await Result.runAsync(program)).toEqual(new NotFoundErr('user'))
+
+        const exit = await Koka.runAsync(function* () {
+            return yield* Fiber.await(yield* Fiber.fork(Err.throw(new NotFoundErr('post'))))
+        })
+
+        expect(exit).toEqual(Cause.failure(Cause.fail(new NotFoundErr('post'))))
+    })
+
+    it('should throw the error of the fiber when joining', async () => {
+        function* program() {
+            const fiber = yield* Fiber.fork(function* (): Generator<Async.Async, string> {
+                yield* Async.await(Promise.resolve())
+                throw new Error('failed')
+            })
+
+            return yield* Fiber.join(fiber)
+        }
+
+        await expect(Koka.runAsync(program)).rejects.toThrow('failed')
+    })
+
+    it('should interrupt the fiber when the run forking it is aborted', async () => {
+        const runtime = new TestRuntime()
+        const controller = new AbortController()
+
+        let fiber: Fiber.Fiber<void, never> | undefined
+
+        function* program() {
+            fiber = yield* Fiber.fork(Async.sleep(100))
+            yield* Async.sleep(100)
+        }
+
+        const run = runtime.run(program, { signal: controller.signal })
+
+        await runtime.advanceBy(10)
+        controller.abort()
+        await runtime.runAll()
+
+        await expect(run.promise).rejects.toThrow(Async.AbortError)
+
+        const exit = await fiber!.promise
+
+        expect(exit.type === 'failure' && Cause.isInterrupted(exit.cause)).toBe(true)
+    })
+
+    it('should remove the abort listener when the fiber is interrupted', async () => {
+        const controller = new AbortController()
+        const addEventListener = jest.spyOn(controller.signal, 'addEventListener')
+        const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener')
+
+        function* program() {
+            const fiber = yield* Fiber.fork(Async.await(new Promise(() => {})))
+
+            expect(addEventListener).toHaveBeenCalledTimes(1)
+
+            fiber.controller.abort()
+
+            return fiber
+        }
+
+        const fiber = await Koka.runAsync(program, { signal: controller.signal })
+        const exit = await fiber.promise
+
+        expect(exit.type === 'failure' && Cause.isInterrupted(exit.cause)).toBe(true)
+        expect(removeEventListener).toHaveBeenCalledWith('abort', addEventListener.mock.calls[0][1])
+    })
+
+    it('should not listen to a signal when the runner has no signal', async () => {
+        function* program() {
+            return yield* Fiber.fork(Async.await(new Promise(() => {})))
+        }
+
+        const addEventListener = jest.spyOn(AbortSignal.prototype, 'addEventListener')
+
+        try {
+            const fiber = await Koka.runAsync(program)
+            const signals = addEventListener.mock.instances as unknown[]
+
+            expect(signals.every((signal) => signal === fiber.controller.signal)).toBe(true)
+
+            fiber.controller.abort()
+            await fiber.promise
+        } finally {
+            addEventListener.mockRestore()
+        }
+    })
+})
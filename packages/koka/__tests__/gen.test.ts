@@ -44,4 +44,94 @@ describe('Gen', () => {
 
         expect(Gen.isGen(asyncGen())).toBe(true)
     })
+
+    it('should forward effect and resume generator with the outcome', () => {
+        function* inner() {
+            try {
+                const value: number = yield 'ask'
+                return value * 2
+            } catch (error) {
+                return -1
+            }
+        }
+
+        function* outer() {
+            const gen = inner()
+            let result = gen.next()
+
+            while (!result.done) {
+                result = yield* Gen.forward(gen, result.value)
+            }
+
+            return result.value
+        }
+
+        const resumed = outer()
+        expect(resumed.next()).toEqual({ done: false, value: 'ask' })
+        expect(resumed.next(21)).toEqual({ done: true, value: 42 })
+
+        const thrown = outer()
+        expect(thrown.next()).toEqual({ done: false, value: 'ask' })
+        expect(thrown.throw(new Error('failed'))).toEqual({ done: true, value: -1 })
+    })
+
+    it('should finalize generator and forward effects of finally blocks', () => {
+        const steps = [] as string[]
+
+        function* inner() {
+            try {
+                yield 'work'
+            } finally {
+                const value: string = yield 'flush'
+                steps.push(`flushed ${value}`)
+            }
+        }
+
+        function* outer() {
+            const gen = inner()
+            gen.next()
+            yield* Gen.finalize(gen)
+            steps.push('finalized')
+        }
+
+        const gen = outer()
+        expect(gen.next()).toEqual({ done: false, value: 'flush' })
+        expect(gen.next('logs')).toEqual({ done: true, value: undefined })
+        expect(steps).toEqual(['flushed logs', 'finalized'])
+    })
+
+    it('should run every step inside the function, including the steps of finally blocks', () => {
+        let state = 'outside'
+        const steps = [] as string[]
+
+        function* inner() {
+            try {
+                steps.push(`start ${state}`)
+                const value: string = yield 'work'
+                steps.push(`resume ${value} ${state}`)
+                yield 'more work'
+            } finally {
+                yield 'flush'
+                steps.push(`finally ${state}`)
+            }
+        }
+
+        const gen = Gen.wrapSteps(inner(), (step) => {
+            const previous = state
+            state = 'inside'
+
+            try {
+                return step()
+            } finally {
+                state = previous
+            }
+        })
+
+        expect(gen.next()).toEqual({ done: false, value: 'work' })
+        expect(gen.next('result')).toEqual({ done: false, value: 'more work' })
+        expect(state).toBe('outside')
+        expect(gen.return(undefined)).toEqual({ done: false, value: 'flush' })
+        expect(gen.next()).toEqual({ done: true, value: undefined })
+        expect(steps).toEqual(['start inside', 'resume result inside', 'finally inside'])
+    })
 })
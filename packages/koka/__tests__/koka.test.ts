@@ -4,6 +4,7 @@ import * as Err from '../src/err'
 import * as Ctx from '../src/ctx'
 import * as Opt from '../src/opt'
 import * as Async from '../src/async'
+import * as Op from '../src/op'
 
 describe('Err.throw', () => {
     it('should throw error effect', () => {
@@ -116,6 +117,26 @@ describe('Koka.try', () => {
     })
 })
 
+describe('Koka.try with async effects', () => {
+    it('should deliver rejected promises to the inner generator', async () => {
+        class TestCtx extends Ctx.Ctx('TestCtx')<string> {}
+
+        function* test() {
+            const prefix = yield* Ctx.get(TestCtx)
+
+            try {
+                yield* Async.await(Promise.reject(new Error('failed')))
+                return 'should not reach here'
+            } catch (error) {
+                return `${prefix}: ${(error as Error).message}`
+            }
+        }
+
+        const result = await Koka.runAsync(Koka.try(test).handle({ TestCtx: 'Caught' }))
+        expect(result).toBe('Caught: failed')
+    })
+})
+
 describe('Koka.runAsync', () => {
     it('should handle async effects', async () => {
         function* test() {
@@ -195,6 +216,262 @@ describe('Koka.runAsync', () => {
     })
 })
 
+describe('Koka.try with effectful finally blocks', () => {
+    it('should drive finally blocks with effects after error effect was handled', async () => {
+        class TestErr extends Err.Err('TestErr')<string> {}
+        class LoggerCtx extends Ctx.Ctx('LoggerCtx')<(message: string) => void> {}
+
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                yield* Err.throw(new TestErr('failed'))
+                return 'should not reach here'
+            } finally {
+                const log = yield* Ctx.get(LoggerCtx)
+                yield* Async.await(Promise.resolve())
+                log('flushed')
+            }
+        }
+
+        const result = await Koka.runAsync(
+            Koka.try(test).handle({
+                TestErr: (error) => {
+                    steps.push(`caught ${error}`)
+                    return 'recovered'
+                },
+                LoggerCtx: (message: string) => {
+                    steps.push(message)
+                },
+            }),
+        )
+
+        expect(result).toBe('recovered')
+        expect(steps).toEqual(['caught failed', 'flushed'])
+    })
+
+    it('should forward unhandled effects of finally blocks to the enclosing handlers', () => {
+        class TestErr extends Err.Err('TestErr')<string> {}
+        class OuterCtx extends Ctx.Ctx('OuterCtx')<string> {}
+
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                yield* Err.throw(new TestErr('failed'))
+            } finally {
+                steps.push(yield* Ctx.get(OuterCtx))
+            }
+        }
+
+        const program = Koka.try(Koka.try(test).handle({ TestErr: () => 'recovered' })).handle({
+            OuterCtx: 'outer finally',
+        })
+
+        expect(Koka.runSync(program)).toBe('recovered')
+        expect(steps).toEqual(['outer finally'])
+    })
+})
+
+describe('Koka.try with directly nested handlers', () => {
+    class TestErr extends Err.Err('TestErr')<string> {}
+    class NameCtx extends Ctx.Ctx('NameCtx')<string> {}
+    class Greet extends Op.Op('Greet')<void, string> {}
+
+    it('should dispatch effects to the innermost handler', () => {
+        function* test() {
+            const name = yield* Ctx.get(NameCtx)
+            const greeting = yield* Op.perform(new Greet())
+            return `${greeting} ${name}`
+        }
+
+        const program = Koka.try(Koka.try(test).handle({ NameCtx: 'inner' })).handle({
+            NameCtx: 'outer',
+            Greet: (_, resume) => resume('hello'),
+        })
+
+        expect(Koka.runSync(program)).toBe('hello inner')
+    })
+
+    it('should handle effects of handlers by the outer handlers', () => {
+        function* test() {
+            return yield* Op.perform(new Greet())
+        }
+
+        const program = Koka.try(
+            Koka.try(test).handle({
+                NameCtx: 'inner',
+                Greet: function* (_, resume) {
+                    return resume(`hello ${yield* Ctx.get(NameCtx)}`)
+                },
+            }),
+        ).handle({ NameCtx: 'outer' })
+
+        expect(Koka.runSync(program)).toBe('hello outer')
+    })
+
+    it('should handle err effects of finally blocks by the outer handlers', () => {
+        class CleanupErr extends Err.Err('CleanupErr')<string> {}
+
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                throw yield* Err.throw(new TestErr('failed'))
+            } finally {
+                steps.push(yield* Ctx.get(NameCtx))
+                yield* Err.throw(new CleanupErr('cleanup failed'))
+            }
+        }
+
+        const program = Koka.try(Koka.try(test).handle({ NameCtx: 'inner', TestErr: () => 'inner' })).handle({
+            CleanupErr: () => 'outer',
+        })
+
+        expect(Koka.runSync(program)).toBe('outer')
+        expect(steps).toEqual(['inner'])
+    })
+
+    it('should wrap the values returned by the inner handlers in Result.wrap', () => {
+        function* test(): Generator<TestErr, string> {
+            throw yield* Err.throw(new TestErr('failed'))
+        }
+
+        expect(Koka.runSync(Result.wrap(Koka.try(test).handle({ TestErr: () => 'recovered' })))).toEqual(
+            Result.ok('recovered'),
+        )
+        expect(Koka.runSync(Koka.try(Result.wrap(test())).handle({ TestErr: () => 'recovered' }))).toEqual(
+            new TestErr('failed'),
+        )
+    })
+
+    it('should not merge handlers into started generators', () => {
+        class DebugOpt extends Opt.Opt('DebugOpt')<boolean> {}
+
+        const steps = [] as string[]
+
+        function* test() {
+            steps.push('start')
+            const debug = yield* Opt.get(DebugOpt)
+            return `${yield* Ctx.get(NameCtx)} ${debug ?? false}`
+        }
+
+        const inner = Koka.try(test).handle({ NameCtx: 'inner' })
+
+        expect(inner.next().value).toMatchObject({ type: 'opt', name: 'DebugOpt' })
+        expect(Koka.runSync(Koka.try(inner).handle({ NameCtx: 'outer', DebugOpt: true }))).toBe('inner false')
+        expect(steps).toEqual(['start'])
+    })
+})
+
+describe('Koka.runAsync with signal', () => {
+    it('should reject with abort error and clean up the generator when aborted', async () => {
+        const controller = new AbortController()
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                steps.push('start')
+                yield* Async.await(new Promise(() => {}))
+                steps.push('should not reach here')
+            } finally {
+                steps.push('finally')
+            }
+        }
+
+        const promise = Koka.runAsync(test(), { signal: controller.signal })
+
+        await Promise.resolve()
+        controller.abort()
+
+        await expect(promise).rejects.toBeInstanceOf(Async.AbortError)
+        expect(steps).toEqual(['start', 'finally'])
+    })
+
+    it('should wait for async effects of finally blocks when aborted', async () => {
+        const controller = new AbortController()
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                yield* Async.await(new Promise(() => {}))
+            } finally {
+                const signal = yield* Async.signal()
+                steps.push(`aborted: ${signal.aborted}`)
+                yield* Async.await(Promise.resolve())
+                steps.push('released')
+            }
+        }
+
+        const promise = Koka.runAsync(test, { signal: controller.signal })
+
+        await Promise.resolve()
+        controller.abort()
+
+        await expect(promise).rejects.toBeInstanceOf(Async.AbortError)
+        expect(steps).toEqual(['aborted: true', 'released'])
+    })
+
+    it('should not start the generator when signal was already aborted', async () => {
+        const controller = new AbortController()
+        let started = false
+
+        function* test() {
+            started = true
+            return 1
+        }
+
+        controller.abort()
+
+        await expect(Koka.runAsync(test, { signal: controller.signal })).rejects.toBeInstanceOf(Async.AbortError)
+        expect(started).toBe(false)
+    })
+
+    it('should abort when signal was aborted by the computation itself', async () => {
+        const controller = new AbortController()
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                yield* Async.await(Promise.resolve())
+                controller.abort()
+                yield* Async.await(Promise.resolve())
+                steps.push('should not reach here')
+            } finally {
+                steps.push('finally')
+            }
+        }
+
+        await expect(Koka.runAsync(test, { signal: controller.signal })).rejects.toBeInstanceOf(Async.AbortError)
+        expect(steps).toEqual(['finally'])
+    })
+
+    it('should resolve normally when signal is not aborted', async () => {
+        const controller = new AbortController()
+
+        function* test() {
+            const value = yield* Async.await(Promise.resolve(21))
+            return value * 2
+        }
+
+        expect(await Koka.runAsync(test, { signal: controller.signal })).toBe(42)
+    })
+
+    it('should support signal in Result.runAsync', async () => {
+        const controller = new AbortController()
+
+        function* test() {
+            yield* Async.await(new Promise(() => {}))
+        }
+
+        const promise = Result.runAsync(test, { signal: controller.signal })
+
+        controller.abort()
+
+        await expect(promise).rejects.toBeInstanceOf(Async.AbortError)
+    })
+})
+
 describe('Koka.runSync', () => {
     it('should run sync effects', () => {
         function* test() {
@@ -216,6 +493,94 @@ describe('Koka.runSync', () => {
     })
 })
 
+describe('Koka.run', () => {
+    class UserNotFound extends Err.Err('UserNotFound')<string> {}
+    class Database extends Ctx.Ctx('Database')<Map<string, string>> {}
+    class Debug extends Opt.Opt('Debug')<boolean> {}
+
+    function* getUser(id: string) {
+        const database = yield* Ctx.get(Database)
+        const debug = yield* Opt.get(Debug)
+        const user = database.get(id)
+
+        if (!user) {
+            throw yield* Err.throw(new UserNotFound(id))
+        }
+
+        return debug ? `${user} (debug)` : user
+    }
+
+    it('should run with handlers of the remaining effects', () => {
+        const handlers = {
+            Database: new Map([['1', 'Alice']]),
+            UserNotFound: (id: string) => `missing ${id}`,
+        }
+
+        expect(Koka.run(getUser('1'), handlers)).toBe('Alice')
+        expect(Koka.run(getUser('2'), handlers)).toBe('missing 2')
+    })
+
+    it('should handle opt effects with or without handlers', () => {
+        const result = Koka.run(getUser('1'), {
+            Database: new Map([['1', 'Alice']]),
+            UserNotFound: () => null,
+            Debug: true,
+        })
+
+        expect(result).toBe('Alice (debug)')
+    })
+
+    it('should report unhandled effects at compile time', () => {
+        expect(() =>
+            // @ts-expect-error UserNotFound is not handled
+            Koka.run(getUser('2'), {
+                Database: new Map(),
+            }),
+        ).toThrow(Koka.UnhandledEffectError)
+    })
+
+    it('should run async effectors with handlers', async () => {
+        function* getUserAsync(id: string) {
+            yield* Async.await(Promise.resolve())
+            return yield* getUser(id)
+        }
+
+        const result = await Koka.runAsync(getUserAsync('2'), {
+            Database: new Map(),
+            UserNotFound: (id) => `missing ${id}`,
+        })
+
+        expect(result).toBe('missing 2')
+
+        await expect(
+            // @ts-expect-error Database is not handled
+            Koka.runAsync(getUserAsync('1'), { UserNotFound: () => null }),
+        ).rejects.toThrow(Koka.UnhandledEffectError)
+    })
+
+    it('should abort async effectors with handlers', async () => {
+        const controller = new AbortController()
+
+        function* test() {
+            yield* Async.await(new Promise(() => {}))
+            return yield* getUser('1')
+        }
+
+        const promise = Koka.runAsync(
+            test,
+            {
+                Database: new Map(),
+                UserNotFound: () => null,
+            },
+            { signal: controller.signal },
+        )
+
+        controller.abort()
+
+        await expect(promise).rejects.toBeInstanceOf(Async.AbortError)
+    })
+})
+
 describe('Complex scenarios', () => {
     it('should handle successful nested effects', async () => {
         class TestCtx extends Ctx.Ctx('TestCtx')<number> {}
@@ -0,0 +1,193 @@
+import * as Koka from '../src/koka'
+import * as Layer from '../src/layer'
+import * as Ctx from '../src/ctx'
+import * as Opt from '../src/opt'
+import * as Err from '../src/err'
+import * as Async from '../src/async'
+import * as Result from '../src/result'
+
+class Config extends Ctx.Ctx('Config')<{ url: string }> {}
+class Database extends Ctx.Ctx('Database')<{ query: (sql: string) => string }> {}
+class Logger extends Ctx.Ctx('Logger')<(message: string) => void> {}
+class Debug extends Opt.Opt('Debug')<boolean> {}
+class ConnectErr extends Err.Err('ConnectErr')<string> {}
+
+describe('Layer.succeed', () => {
+    it('should provide ctx value', () => {
+        function* program() {
+            const config = yield* Ctx.get(Config)
+            return config.url
+        }
+
+        const result = Koka.runSync(Layer.provide(program, Layer.succeed(Config, { url: 'db://local' })))
+
+        expect(result).toBe('db://local')
+    })
+
+    it('should provide opt value', () => {
+        function* program() {
+            return (yield* Opt.get(Debug)) ?? false
+        }
+
+        expect(Koka.runSync(Layer.provide(program, Layer.succeed(Debug, true)))).toBe(true)
+        expect(Koka.runSync(program)).toBe(false)
+    })
+})
+
+describe('Layer.effect', () => {
+    it('should build value with async setup', async () => {
+        const DatabaseLive = Layer.effect(Database, function* () {
+            const prefix = yield* Async.await(Promise.resolve('connected'))
+
+            return {
+                query: (sql: string) => `${prefix}: ${sql}`,
+            }
+        })
+
+        function* program() {
+            const db = yield* Ctx.get(Database)
+            return db.query('select 1')
+        }
+
+        const result = await Koka.runAsync(Layer.provide(program, DatabaseLive))
+
+        expect(result).toBe('connected: select 1')
+    })
+
+    it('should propagate error effects of building', () => {
+        const DatabaseLive = Layer.effect(Database, function* () {
+            throw yield* Err.throw(new ConnectErr('refused'))
+        })
+
+        let started = false
+
+        function* program() {
+            started = true
+            const db = yield* Ctx.get(Database)
+            return db.query('select 1')
+        }
+
+        expect(Result.runSync(Layer.provide(program, DatabaseLive))).toEqual(new ConnectErr('refused'))
+        expect(started).toBe(false)
+    })
+})
+
+describe('Layer.merge', () => {
+    it('should provide all services of the layers', () => {
+        const logs = [] as string[]
+
+        const AppLive = Layer.merge(
+            Layer.succeed(Config, { url: 'db://local' }),
+            Layer.succeed(Logger, (message: string) => {
+                logs.push(message)
+            }),
+        )
+
+        function* program() {
+            const config = yield* Ctx.get(Config)
+            const log = yield* Ctx.get(Logger)
+            log(`connecting to ${config.url}`)
+            return 'done'
+        }
+
+        const provided = Layer.provide(program, AppLive)
+
+        expect(Koka.runSync(provided)).toBe('done')
+        expect(logs).toEqual(['connecting to db://local'])
+        expect(AppLive.services).toEqual([Config, Logger])
+    })
+})
+
+describe('Layer.provideMerge', () => {
+    it('should build layer with the values of its dependency', () => {
+        const steps = [] as string[]
+
+        const ConfigLive = Layer.effect(Config, function* () {
+            steps.push('build config')
+            return { url: 'db://local' }
+        })
+
+        const DatabaseLive = Layer.effect(Database, function* () {
+            const config = yield* Ctx.get(Config)
+            steps.push('build database')
+
+            return {
+                query: (sql: string) => `${config.url}: ${sql}`,
+            }
+        })
+
+        const AppLive = Layer.provideMerge(DatabaseLive, ConfigLive)
+
+        function* program() {
+            const db = yield* Ctx.get(Database)
+            const config = yield* Ctx.get(Config)
+            return `${db.query('select 1')} via ${config.url}`
+        }
+
+        expect(Koka.runSync(Layer.provide(program, AppLive))).toBe('db://local: select 1 via db://local')
+        expect(steps).toEqual(['build config', 'build database'])
+    })
+
+    it('should keep the unprovided dependencies in the type', () => {
+        const DatabaseLive = Layer.effect(Database, function* () {
+            const config = yield* Ctx.get(Config)
+            const log = yield* Ctx.get(Logger)
+            log('database ready')
+
+            return {
+                query: (sql: string) => `${config.url}: ${sql}`,
+            }
+        })
+
+        const AppLive = Layer.provideMerge(DatabaseLive, Layer.succeed(Config, { url: 'db://local' }))
+
+        function* program() {
+            const db = yield* Ctx.get(Database)
+            return db.query('select 1')
+        }
+
+        const provided = () => Layer.provide(program, AppLive)
+
+        // @ts-expect-error Logger is not provided
+        expect(() => Koka.runSync(provided)).toThrow('Unhandled effect')
+
+        const logs = [] as string[]
+
+        const result = Koka.runSync(
+            Koka.try(provided).handle({
+                Logger: (message: string) => {
+                    logs.push(message)
+                },
+            }),
+        )
+
+        expect(result).toBe('db://local: select 1')
+        expect(logs).toEqual(['database ready'])
+    })
+})
+
+describe('Layer.provide', () => {
+    it('should only handle the provided effects', () => {
+        function* program() {
+            const config = yield* Ctx.get(Config)
+            const log = yield* Ctx.get(Logger)
+            log(config.url)
+            return config.url
+        }
+
+        const provided = Layer.provide(program, Layer.succeed(Config, { url: 'db://local' }))
+
+        const logs = [] as string[]
+
+        const result = Koka.runSync(
+            Koka.try(provided).handle({
+                Logger: (message: string) => {
+                    logs.push(message)
+                },
+            }),
+        )
+
+        expect(result).toBe('db://local')
+        expect(logs).toEqual(['db://local'])
+    })
+})
@@ -0,0 +1,201 @@
+import * as Koka from '../src/koka'
+import * as Op from '../src/op'
+import * as Err from '../src/err'
+import * as Ctx from '../src/ctx'
+import * as Async from '../src/async'
+import * as Result from '../src/result'
+
+describe('Op', () => {
+    it('should create operation effect class', () => {
+        class Log extends Op.Op('Log')<string> {}
+        const op = new Log('message')
+
+        expect(op.type).toBe('op')
+        expect(op.name).toBe('Log')
+        expect(op.payload).toBe('message')
+        expect(Log.field).toBe('Log')
+    })
+
+    it('should resume the computation with the reply of handler', () => {
+        class NextId extends Op.Op('NextId')<string, number> {}
+
+        function* program() {
+            const first = yield* Op.perform(new NextId('user'))
+            const second = yield* Op.perform(new NextId('user'))
+            return [first, second]
+        }
+
+        let id = 0
+        const ids = [] as string[]
+
+        const result = Koka.runSync(
+            Koka.try(program).handle({
+                NextId: (prefix, resume) => {
+                    ids.push(prefix)
+                    return resume(++id)
+                },
+            }),
+        )
+
+        expect(result).toEqual([1, 2])
+        expect(ids).toEqual(['user', 'user'])
+    })
+
+    it('should abort the computation when handler does not resume', () => {
+        class Confirm extends Op.Op('Confirm')<string, boolean> {}
+
+        const steps = [] as string[]
+
+        function* program() {
+            try {
+                steps.push('start')
+                yield* Op.perform(new Confirm('continue?'))
+                steps.push('should not reach here')
+                return 'done'
+            } finally {
+                steps.push('cleanup')
+            }
+        }
+
+        const result = Koka.runSync(
+            Koka.try(program).handle({
+                Confirm: (question) => `Rejected: ${question}`,
+            }),
+        )
+
+        expect(result).toBe('Rejected: continue?')
+        expect(steps).toEqual(['start', 'cleanup'])
+    })
+
+    it('should support effectful handlers', async () => {
+        class Fetch extends Op.Op('Fetch')<string, { url: string; status: number }> {}
+        class BaseUrl extends Ctx.Ctx('BaseUrl')<string> {}
+
+        function* program() {
+            const response = yield* Op.perform(new Fetch('/users'))
+            return response.status
+        }
+
+        const handled = Koka.try(program).handle({
+            Fetch: function* (path, resume) {
+                const baseUrl = yield* Ctx.get(BaseUrl)
+                const status = yield* Async.await(Promise.resolve(200))
+                return resume({ url: `${baseUrl}${path}`, status })
+            },
+        })
+
+        const result = await Koka.runAsync(
+            Koka.try(handled).handle({
+                BaseUrl: 'https://example.com',
+            }),
+        )
+
+        expect(result).toBe(200)
+    })
+
+    it('should forward effects of handler to outer handlers instead of itself', () => {
+        class Ask extends Op.Op('Ask')<string, string> {}
+
+        function* program() {
+            return yield* Op.perform(new Ask('inner'))
+        }
+
+        const inner = Koka.try(program).handle({
+            Ask: function* (question, resume) {
+                const answer = yield* Op.perform(new Ask(`outer ${question}`))
+                return resume(`${answer}!`)
+            },
+        })
+
+        const result = Koka.runSync(
+            Koka.try(inner).handle({
+                Ask: (question, resume) => resume(question.toUpperCase()),
+            }),
+        )
+
+        expect(result).toBe('OUTER INNER!')
+    })
+
+    it('should propagate unhandled operation to outer handler', () => {
+        class Log extends Op.Op('Log')<string> {}
+
+        function* program() {
+            yield* Op.perform(new Log('hello'))
+            return 'done'
+        }
+
+        const logs = [] as string[]
+
+        const result = Koka.runSync(
+            Koka.try(Koka.try(program).handle({})).handle({
+                Log: (message, resume) => {
+                    logs.push(message)
+                    return resume()
+                },
+            }),
+        )
+
+        expect(result).toBe('done')
+        expect(logs).toEqual(['hello'])
+    })
+
+    it('should throw when resumed more than once', () => {
+        class Twice extends Op.Op('Twice')<void, number> {}
+
+        function* program() {
+            return yield* Op.perform(new Twice())
+        }
+
+        expect(() =>
+            Koka.runSync(
+                Koka.try(program).handle({
+                    Twice: (_, resume) => {
+                        resume(1)
+                        return resume(2)
+                    },
+                }),
+            ),
+        ).toThrow('Operation [Twice] can only be resumed once')
+    })
+
+    it('should throw when resumed after handler completed', () => {
+        class Later extends Op.Op('Later')<void, number> {}
+
+        let resumeLater: Op.Resume<number> | undefined
+
+        function* program() {
+            return yield* Op.perform(new Later())
+        }
+
+        const result = Koka.runSync(
+            Koka.try(program).handle({
+                Later: (_, resume) => {
+                    resumeLater = resume
+                    return 'aborted'
+                },
+            }),
+        )
+
+        expect(result).toBe('aborted')
+        expect(() => resumeLater?.(1)).toThrow('Operation [Later] can not be resumed after its handler completed')
+    })
+
+    it('should work together with error handlers', () => {
+        class Divide extends Op.Op('Divide')<[number, number], number> {}
+        class DivideByZero extends Err.Err('DivideByZero')<number> {}
+
+        function* program(a: number, b: number) {
+            return yield* Op.perform(new Divide([a, b]))
+        }
+
+        const divide = function* ([a, b]: [number, number], resume: Op.Resume<number>) {
+            if (b === 0) {
+                throw yield* Err.throw(new DivideByZero(a))
+            }
+            return resume(a / b)
+        }
+
+        expect(Result.runSync(Koka.try(program(6, 3)).handle({ Divide: divide }))).toEqual(Result.ok(2))
+        expect(Result.runSync(Koka.try(program(6, 0)).handle({ Divide: divide }))).toEqual(new DivideByZero(6))
+    })
+})
@@ -1,6 +1,7 @@
 import * as Opt from '../src/opt'
 import * as Koka from '../src/koka'
 import * as Async from '../src/async'
+import * as Ctx from '../src/ctx'
 
 describe('Opt', () => {
     it('should return undefined when no value provided', () => {
@@ -116,3 +117,93 @@ describe('Opt', () => {
         })
     })
 })
+
+describe('Opt.lazy', () => {
+    class ServiceOpt extends Opt.Opt('Service')<{ id: number }> {}
+
+    function* getServiceId() {
+        const service = yield* Opt.get(ServiceOpt)
+        return service?.id
+    }
+
+    it('should build the value on first access and memoize it', () => {
+        let builds = 0
+
+        function* test() {
+            const first = yield* Opt.get(ServiceOpt)
+            const second = yield* Opt.get(ServiceOpt)
+            return first === second
+        }
+
+        const handlers = {
+            Service: Opt.lazy(() => ({ id: ++builds })),
+        }
+
+        expect(Koka.runSync(Koka.try(test).handle(handlers))).toBe(true)
+        expect(builds).toBe(1)
+
+        expect(Koka.runSync(Koka.try(getServiceId).handle(handlers))).toBe(2)
+        expect(builds).toBe(2)
+    })
+
+    it('should not build the value when it is not used', () => {
+        let builds = 0
+
+        function* test() {
+            return 'done'
+        }
+
+        const result = Koka.runSync(
+            Koka.try(test).handle({
+                Service: Opt.lazy(() => ({ id: ++builds })),
+            }),
+        )
+
+        expect(result).toBe('done')
+        expect(builds).toBe(0)
+    })
+
+    it('should propagate effects of the factory to outer handlers', async () => {
+        class ConfigOpt extends Opt.Opt('Config')<number> {}
+
+        const program = Koka.try(getServiceId).handle({
+            Service: Opt.lazy(function* () {
+                const id = yield* Async.await(Promise.resolve(1))
+                const offset = yield* Opt.get(ConfigOpt)
+                return { id: id + (offset ?? 0) }
+            }),
+        })
+
+        expect(await Koka.runAsync(Koka.try(program).handle({ Config: 41 }))).toBe(42)
+    })
+
+    it('should throw errors of the factory into the effector', () => {
+        function* test() {
+            try {
+                return yield* getServiceId()
+            } catch (error) {
+                return (error as Error).message
+            }
+        }
+
+        const result = Koka.runSync(
+            Koka.try(test).handle({
+                Service: Opt.lazy((): { id: number } => {
+                    throw new Error('build failed')
+                }),
+            }),
+        )
+
+        expect(result).toBe('build failed')
+    })
+
+    it('should provide ctx values lazily', () => {
+        class DatabaseCtx extends Ctx.Ctx('Database')<string> {}
+
+        function* test() {
+            return yield* Ctx.get(DatabaseCtx)
+        }
+
+        expect(Koka.runSync(Koka.try(test).handle({ Database: Opt.lazy(() => 'db') }))).toBe('db')
+    })
+})
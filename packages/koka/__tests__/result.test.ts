@@ -230,6 +230,42 @@ describe('Result.wrap', () => {
             value: 84,
         })
     })
+
+    it('should deliver rejected promises to the wrapped generator', async () => {
+        function* asyncFailure() {
+            try {
+                yield* Async.await(Promise.reject(new Error('failed')))
+                return 'should not reach here'
+            } catch (error) {
+                return `Caught: ${(error as Error).message}`
+            }
+        }
+
+        const result = await Koka.runAsync(Result.wrap(asyncFailure()))
+        expect(result).toEqual(Result.ok('Caught: failed'))
+    })
+})
+
+describe('Result.wrap with effectful finally blocks', () => {
+    it('should drive finally blocks after error effect', async () => {
+        class TestErr extends Err.Err('TestErr')<string> {}
+
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                yield* Err.throw(new TestErr('failed'))
+            } finally {
+                yield* Async.await(Promise.resolve())
+                steps.push('released')
+            }
+        }
+
+        const result = await Koka.runAsync(Result.wrap(test()))
+
+        expect(result).toEqual(new TestErr('failed'))
+        expect(steps).toEqual(['released'])
+    })
 })
 
 describe('Result.unwrap', () => {
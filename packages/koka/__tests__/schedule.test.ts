@@ -0,0 +1,188 @@
+import * as Koka from '../src/koka'
+import * as Schedule from '../src/schedule'
+import * as Result from '../src/result'
+import * as Async from '../src/async'
+import * as Err from '../src/err'
+import { TestRuntime } from '../src/test-runtime'
+
+class NetworkErr extends Err.Err('NetworkErr')<{ status: number }> {}
+class NotFoundErr extends Err.Err('NotFoundErr')<string> {}
+
+describe('Schedule backoff', () => {
+    it('should create fixed backoff', () => {
+        const backoff = Schedule.fixed(100)
+
+        expect([1, 2, 3].map(backoff)).toEqual([100, 100, 100])
+    })
+
+    it('should create exponential backoff', () => {
+        expect([1, 2, 3, 4].map(Schedule.exponential(100))).toEqual([100, 200, 400, 800])
+        expect([1, 2, 3, 4].map(Schedule.exponential(100, { factor: 3, max: 500 }))).toEqual([100, 300, 500, 500])
+    })
+
+    it('should create jittered backoff', () => {
+        const backoff = Schedule.jittered(Schedule.exponential(100), () => 0.5)
+
+        expect([1, 2, 3].map(backoff)).toEqual([50, 100, 200])
+    })
+})
+
+describe('Schedule.retry', () => {
+    it('should retry on matched error until success', async () => {
+        const runtime = new TestRuntime()
+        const starts = [] as number[]
+        let attempts = 0
+
+        function* request() {
+            attempts += 1
+            starts.push(runtime.now())
+
+            if (attempts < 3) {
+                yield* Err.throw(new NetworkErr({ status: 503 }))
+            }
+
+            return yield* Async.await(Promise.resolve('ok'))
+        }
+
+        const program = Schedule.retry(request, {
+            on: ['NetworkErr'],
+            maxAttempts: 5,
+            backoff: Schedule.exponential(100),
+        })
+
+        const run = runtime.run(Result.wrap(program))
+
+        await runtime.runAll()
+
+        expect(await run.promise).toEqual(Result.ok('ok'))
+        expect(attempts).toBe(3)
+        expect(starts).toEqual([0, 100, 300])
+    })
+
+    it('should propagate the error when attempts are exhausted', async () => {
+        let attempts = 0
+
+        function* request() {
+            attempts += 1
+            yield* Err.throw(new NetworkErr({ status: 503 }))
+            return 'should not reach here'
+        }
+
+        const result = await Result.runAsync(Schedule.retry(request, { on: ['NetworkErr'], maxAttempts: 3 }))
+
+        expect(result).toEqual(new NetworkErr({ status: 503 }))
+        expect(attempts).toBe(3)
+    })
+
+    it('should not retry errors that are not matched', async () => {
+        let attempts = 0
+
+        function* request(): Generator<NetworkErr | NotFoundErr, string> {
+            attempts += 1
+            yield* Err.throw(new NotFoundErr('user'))
+            return 'should not reach here'
+        }
+
+        const program: Generator<NetworkErr | NotFoundErr | Async.Async | Async.ClockOpt, string> = Schedule.retry(
+            request,
+            { on: ['NetworkErr'] },
+        )
+
+        // @ts-expect-error only errors yielded by the effector can be retried
+        Schedule.retry(request, { on: ['UnknownErr'] })
+
+        const result = await Koka.runAsync(
+            Koka.try(program).handle({
+                NetworkErr: () => 'network error',
+                NotFoundErr: (name) => `${name} not found`,
+            }),
+        )
+
+        expect(result).toBe('user not found')
+        expect(attempts).toBe(1)
+    })
+
+    it('should only retry when the predicate passes', async () => {
+        const statuses = [503, 500, 404]
+        const seen = [] as number[]
+        let attempts = 0
+
+        function* request() {
+            yield* Err.throw(new NetworkErr({ status: statuses[attempts++] }))
+            return 'should not reach here'
+        }
+
+        const result = await Result.runAsync(
+            Schedule.retry(request, {
+                on: ['NetworkErr'],
+                maxAttempts: 5,
+                while: (err, attempt) => {
+                    seen.push(attempt)
+                    return err.error.status >= 500
+                },
+            }),
+        )
+
+        expect(result).toEqual(new NetworkErr({ status: 404 }))
+        expect(attempts).toBe(3)
+        expect(seen).toEqual([1, 2, 3])
+    })
+
+    it('should fall back to the defaults for options set to undefined', async () => {
+        let attempts = 0
+
+        function* request() {
+            attempts += 1
+            yield* Err.throw(new NetworkErr({ status: 503 }))
+            return 'should not reach here'
+        }
+
+        const result = await Result.runAsync(
+            Schedule.retry(request, {
+                on: ['NetworkErr'],
+                maxAttempts: undefined,
+                backoff: undefined,
+                while: undefined,
+            }),
+        )
+
+        expect(result).toEqual(new NetworkErr({ status: 503 }))
+        expect(attempts).toBe(3)
+    })
+
+    it('should clean up the failed attempt before retrying', async () => {
+        const steps = [] as string[]
+        let attempts = 0
+
+        function* request() {
+            attempts += 1
+
+            try {
+                steps.push(`start ${attempts}`)
+
+                if (attempts === 1) {
+                    yield* Err.throw(new NetworkErr({ status: 503 }))
+                }
+
+                return 'done'
+            } finally {
+                steps.push(`finally ${attempts}`)
+            }
+        }
+
+        const result = await Result.runAsync(Schedule.retry(request, { on: ['NetworkErr'] }))
+
+        expect(result).toEqual(Result.ok('done'))
+        expect(steps).toEqual(['start 1', 'finally 1', 'start 2', 'finally 2'])
+    })
+
+    it('should throw for invalid maxAttempts', async () => {
+        function* request() {
+            return 'done'
+        }
+
+        await expect(Result.runAsync(Schedule.retry(request, { on: [], maxAttempts: 0 }))).rejects.toThrow(
+            'maxAttempts must be greater than 0',
+        )
+    })
+})
@@ -0,0 +1,282 @@
+import * as Koka from '../src/koka'
+import * as Ctx from '../src/ctx'
+import * as Opt from '../src/opt'
+import * as Err from '../src/err'
+import * as Layer from '../src/layer'
+import * as Result from '../src/result'
+import * as Schema from '../src/schema'
+
+const ConfigSchema = Schema.object({
+    apiUrl: Schema.string(),
+    retries: Schema.optional(Schema.number()),
+    hosts: Schema.array(Schema.string()),
+})
+
+class ConfigCtx extends Ctx.Ctx('Config', ConfigSchema) {}
+
+class LevelOpt extends Opt.Opt('Level', Schema.literal('debug')) {}
+
+class NotFoundErr extends Err.Err('NotFoundErr', Schema.object({ id: Schema.number() })) {}
+
+function* getApiUrl() {
+    const config = yield* Ctx.get(ConfigCtx)
+    return config.apiUrl
+}
+
+describe('Schema', () => {
+    it('should validate values with built-in schemas', () => {
+        expect(Schema.validate(ConfigSchema, { apiUrl: 'https://api', hosts: ['a'], extra: true })).toEqual({
+            value: { apiUrl: 'https://api', hosts: ['a'] },
+        })
+
+        expect(Schema.validate(ConfigSchema, { apiUrl: 1, hosts: ['a', 2], retries: '3' })).toEqual({
+            issues: [
+                { message: 'Expected string, received number', path: ['apiUrl'] },
+                { message: 'Expected number, received string', path: ['retries'] },
+                { message: 'Expected string, received number', path: ['hosts', 1] },
+            ],
+        })
+
+        expect(Schema.validate(Schema.boolean(), null)).toEqual({
+            issues: [{ message: 'Expected boolean, received null', path: [] }],
+        })
+    })
+
+    it('should format the path of issues', () => {
+        expect(Schema.formatPath({ message: '', path: ['database', 'hosts', 0, { key: 'port' }] })).toBe(
+            'database.hosts[0].port',
+        )
+        expect(Schema.formatPath({ message: '' })).toBe('')
+    })
+
+    it('should support standard schemas of other libraries', () => {
+        const positive: Schema.StandardSchema<number> = {
+            '~standard': {
+                version: 1,
+                vendor: 'test',
+                validate: (value) => {
+                    if (typeof value === 'number' && value > 0) {
+                        return { value }
+                    }
+
+                    return { issues: [{ message: 'Expected positive number' }] }
+                },
+            },
+        }
+
+        expect(Schema.validate(Schema.array(positive), [1, -1])).toEqual({
+            issues: [{ message: 'Expected positive number', path: [1] }],
+        })
+    })
+
+    it('should reject asynchronous validation', () => {
+        const schema: Schema.StandardSchema<string> = {
+            '~standard': {
+                version: 1,
+                vendor: 'test',
+                validate: async (value) => ({ value: String(value) }),
+            },
+        }
+
+        expect(() => Schema.validate(schema, 'value')).toThrow('Schema validation of effects must be synchronous')
+    })
+})
+
+describe('Ctx with schema', () => {
+    it('should inject the value itself when it is valid', () => {
+        const config = { apiUrl: 'https://api', hosts: [], extra: true }
+
+        function* test() {
+            return yield* Ctx.get(ConfigCtx)
+        }
+
+        const result = Result.runSync(
+            Koka.try(test).handle({
+                Config: config,
+            }),
+        )
+
+        expect(result).toEqual(Result.ok(config))
+        expect(result.type === 'ok' && result.value).toBe(config)
+    })
+
+    it('should keep the prototype of services validated by object schemas', () => {
+        class UserService {
+            prefix = 'user'
+            getName(id: number) {
+                return `${this.prefix} ${id}`
+            }
+        }
+
+        class UserServiceCtx extends Ctx.Ctx('UserService', Schema.object({ prefix: Schema.string() })) {}
+
+        function* test() {
+            const service = (yield* Ctx.get(UserServiceCtx)) as UserService
+            return service.getName(1)
+        }
+
+        const result = Result.runSync(
+            Koka.try(test).handle({
+                UserService: new UserService(),
+            }),
+        )
+
+        expect(result).toEqual(Result.ok('user 1'))
+    })
+
+    it('should raise ValidationErr when the injected value is invalid', () => {
+        const result = Result.runSync(
+            Koka.try(getApiUrl).handle({
+                Config: { apiUrl: 42 } as any,
+            }),
+        )
+
+        expect(result).toEqual(
+            new Err.ValidationErr({
+                effect: 'Config',
+                issues: [
+                    { message: 'Expected string, received number', path: ['apiUrl'] },
+                    { message: 'Expected array, received undefined', path: ['hosts'] },
+                ],
+            }),
+        )
+    })
+
+    it('should handle ValidationErr by the same handlers', () => {
+        const result = Koka.runSync(
+            Koka.try(getApiUrl).handle({
+                Config: { apiUrl: 42 } as any,
+                ValidationErr: (error) => `invalid ${error.effect}`,
+            }),
+        )
+
+        expect(result).toBe('invalid Config')
+    })
+
+    it('should clean up the generator when ValidationErr is raised', () => {
+        const steps = [] as string[]
+
+        function* test() {
+            try {
+                return yield* getApiUrl()
+            } finally {
+                steps.push('finally')
+            }
+        }
+
+        const result = Koka.runSync(
+            Koka.try(Koka.try(test).handle({ Config: {} as any })).handle({
+                ValidationErr: () => 'fallback',
+            }),
+        )
+
+        expect(result).toBe('fallback')
+        expect(steps).toEqual(['finally'])
+    })
+
+    it('should validate values provided by layers', () => {
+        const layer = Layer.succeed(ConfigCtx, { apiUrl: 'https://api', hosts: 'a' } as any)
+
+        expect(Result.runSync(Layer.provide(getApiUrl, layer))).toMatchObject({
+            name: 'ValidationErr',
+            error: { effect: 'Config' },
+        })
+    })
+
+    it('should add ValidationErr to the effects of the handled program', () => {
+        const program = () =>
+            Koka.try(getApiUrl).handle({
+                Config: { apiUrl: 'https://api', hosts: [] },
+            })
+
+        const result: Result.Result<string, Err.ValidationErr> = Result.runSync(program)
+
+        expect(result).toEqual(Result.ok('https://api'))
+
+        // @ts-expect-error ValidationErr is not handled
+        expect(Koka.runSync(program)).toBe('https://api')
+    })
+})
+
+describe('Opt with schema', () => {
+    function* getLevel() {
+        return (yield* Opt.get(LevelOpt)) ?? 'info'
+    }
+
+    it('should validate the provided value', () => {
+        expect(Koka.runSync(Koka.try(getLevel).handle({ Level: 'debug', ValidationErr: () => 'invalid' }))).toBe(
+            'debug',
+        )
+        expect(Koka.runSync(Koka.try(getLevel).handle({ Level: 'trace' as any, ValidationErr: () => 'invalid' }))).toBe(
+            'invalid',
+        )
+    })
+
+    it('should not validate missing values', () => {
+        expect(Koka.runSync(getLevel)).toBe('info')
+    })
+})
+
+describe('Err with schema', () => {
+    it('should throw the err effect when the payload is valid', () => {
+        function* test() {
+            throw yield* Err.throw(new NotFoundErr({ id: 1 }))
+        }
+
+        expect(Result.runSync(test)).toEqual(new NotFoundErr({ id: 1 }))
+    })
+
+    it('should throw ValidationErr when the payload is invalid', () => {
+        function* test() {
+            throw yield* Err.throw(new NotFoundErr({ id: '1' } as any))
+        }
+
+        const result = Result.runSync(test)
+
+        expect(result).toEqual(
+            new Err.ValidationErr({
+                effect: 'NotFoundErr',
+                issues: [{ message: 'Expected number, received string', path: ['id'] }],
+            }),
+        )
+    })
+
+    it('should validate the payload when the err is constructed', () => {
+        expect(Err.getValidationErr(new NotFoundErr({ id: 1 }))).toBeUndefined()
+        expect(Err.getValidationErr(new NotFoundErr({ id: '1' } as any))).toEqual(
+            new Err.ValidationErr({
+                effect: 'NotFoundErr',
+                issues: [{ message: 'Expected number, received string', path: ['id'] }],
+            }),
+        )
+    })
+
+    it('should raise ValidationErr when an invalid err is yielded directly', () => {
+        function* test(): Generator<NotFoundErr, string> {
+            yield new NotFoundErr({ id: '1' } as any)
+            return 'should not reach here'
+        }
+
+        const result = Koka.runSync(
+            Koka.try(test).handle({
+                NotFoundErr: () => 'not found',
+                ValidationErr: (error) => `invalid ${error.effect}`,
+            }),
+        )
+
+        expect(result).toBe('invalid NotFoundErr')
+        expect(Result.runSync(test)).toMatchObject({ name: 'ValidationErr' })
+    })
+
+    it('should validate err effects created by Err.mapError', () => {
+        class RawErr extends Err.Err('RawErr')<string> {}
+
+        function* test() {
+            throw yield* Err.throw(new RawErr('1'))
+        }
+
+        const program = Err.mapError(test, 'RawErr', (id) => new NotFoundErr({ id: Number(id) }))
+
+        expect(Result.runSync(program)).toEqual(new NotFoundErr({ id: 1 }))
+    })
+})
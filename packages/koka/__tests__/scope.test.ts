@@ -0,0 +1,244 @@
+import * as Koka from '../src/koka'
+import * as Scope from '../src/scope'
+import * as Async from '../src/async'
+import * as Err from '../src/err'
+import * as Gen from '../src/gen'
+import * as Task from '../src/task'
+import * as Result from '../src/result'
+import { TestRuntime } from '../src/test-runtime'
+
+class QueryErr extends Err.Err('QueryErr')<string> {}
+
+const createResources = () => {
+    const steps = [] as string[]
+
+    function* open(name: string) {
+        return yield* Scope.acquireRelease(
+            function* () {
+                steps.push(`open ${name}`)
+                return yield* Async.await(Promise.resolve(name))
+            },
+            function* (resource) {
+                yield* Async.await(Promise.resolve())
+                steps.push(`close ${resource}`)
+            },
+        )
+    }
+
+    return {
+        steps,
+        open,
+    }
+}
+
+describe('Scope.scoped', () => {
+    it('should release resources in reverse order', async () => {
+        const { steps, open } = createResources()
+
+        function* program() {
+            const a = yield* open('a')
+            const b = yield* open('b')
+            steps.push(`use ${a} and ${b}`)
+            return 'done'
+        }
+
+        const result = await Koka.runAsync(Scope.scoped(program))
+
+        expect(result).toBe('done')
+        expect(steps).toEqual(['open a', 'open b', 'use a and b', 'close b', 'close a'])
+    })
+
+    it('should release resources when the effector throws', async () => {
+        const { steps, open } = createResources()
+
+        function* program() {
+            yield* open('a')
+            throw new Error('failed')
+        }
+
+        await expect(Koka.runAsync(Scope.scoped(program))).rejects.toThrow('failed')
+        expect(steps).toEqual(['open a', 'close a'])
+    })
+
+    it('should release resources before err effect is handled', async () => {
+        const { steps, open } = createResources()
+
+        function* program() {
+            try {
+                yield* open('a')
+                throw yield* Err.throw(new QueryErr('timeout'))
+            } finally {
+                steps.push('finally')
+            }
+        }
+
+        const result = await Koka.runAsync(
+            Koka.try(Scope.scoped(program)).handle({
+                QueryErr: (error) => {
+                    steps.push(`handle ${error}`)
+                    return 'recovered'
+                },
+            }),
+        )
+
+        expect(result).toBe('recovered')
+        expect(steps).toEqual(['open a', 'finally', 'close a', 'handle timeout'])
+    })
+
+    it('should release resources of the losers of Task.race', async () => {
+        const runtime = new TestRuntime()
+        const { steps, open } = createResources()
+
+        function* task(name: string, ms: number) {
+            return yield* Scope.scoped(function* () {
+                yield* open(name)
+                yield* Async.sleep(ms)
+                return name
+            })
+        }
+
+        const run = runtime.run(Task.race([task('slow', 100), task('fast', 50)]))
+
+        await runtime.runAll()
+
+        expect(await run.promise).toBe('fast')
+        expect(steps).toEqual(['open slow', 'open fast', 'close fast', 'close slow'])
+        expect(runtime.clock.pendingTimers).toBe(0)
+    })
+
+    it('should run all finalizers and throw the first error', () => {
+        const steps = [] as string[]
+
+        function* program() {
+            yield* Scope.addFinalizer(() => {
+                steps.push('first')
+            })
+            yield* Scope.addFinalizer(() => {
+                steps.push('second')
+                throw new Error('second failed')
+            })
+            yield* Scope.addFinalizer(() => {
+                steps.push('third')
+                throw new Error('third failed')
+            })
+            return 'done'
+        }
+
+        expect(() => Koka.runSync(Scope.scoped(program))).toThrow('third failed')
+        expect(steps).toEqual(['third', 'second', 'first'])
+    })
+
+    it('should keep the error of the effector when finalizers fail', () => {
+        function* program() {
+            yield* Scope.addFinalizer(() => {
+                throw new Error('finalizer failed')
+            })
+            throw new Error('effector failed')
+        }
+
+        expect(() => Koka.runSync(Scope.scoped(program))).toThrow('effector failed')
+    })
+
+    it('should support nested scopes', () => {
+        const steps = [] as string[]
+
+        function* resource(name: string) {
+            return yield* Scope.acquireRelease(
+                function* () {
+                    steps.push(`open ${name}`)
+                    return name
+                },
+                (name) => {
+                    steps.push(`close ${name}`)
+                },
+            )
+        }
+
+        function* program() {
+            yield* resource('outer')
+
+            yield* Scope.scoped(function* () {
+                yield* resource('inner')
+            })
+
+            steps.push('after inner scope')
+        }
+
+        Koka.runSync(Scope.scoped(program))
+
+        expect(steps).toEqual(['open outer', 'open inner', 'close inner', 'after inner scope', 'close outer'])
+    })
+
+    it('should propagate effects of finalizers', () => {
+        class CloseErr extends Err.Err('CloseErr')<string> {}
+
+        function* program() {
+            yield* Scope.addFinalizer(function* () {
+                yield* Err.throw(new CloseErr('busy'))
+            })
+            return 'done'
+        }
+
+        expect(Result.runSync(Scope.scoped(program))).toEqual(new CloseErr('busy'))
+    })
+
+    it('should run all finalizers when one of them throws an err effect', () => {
+        class CloseErr extends Err.Err('CloseErr')<string> {}
+
+        const steps = [] as string[]
+
+        function* program() {
+            yield* Scope.addFinalizer(() => {
+                steps.push('first')
+            })
+            yield* Scope.addFinalizer(function* () {
+                steps.push('second')
+                yield* Err.throw(new CloseErr('second'))
+            })
+            yield* Scope.addFinalizer(function* () {
+                steps.push('third')
+                yield* Err.throw(new CloseErr('third'))
+            })
+            return 'done'
+        }
+
+        expect(Result.runSync(Scope.scoped(program))).toEqual(new CloseErr('third'))
+        expect(steps).toEqual(['third', 'second', 'first'])
+    })
+
+    it('should run all finalizers and throw the first error when cleaned up early', () => {
+        const steps = [] as string[]
+
+        function* program() {
+            yield* Scope.addFinalizer(() => {
+                steps.push('first')
+            })
+            yield* Scope.addFinalizer(() => {
+                steps.push('second')
+                throw new Error('second failed')
+            })
+            yield* Async.await(new Promise(() => {}))
+        }
+
+        const gen = Scope.scoped(program)
+
+        gen.next()
+
+        expect(() => Gen.cleanUpGen(gen)).toThrow('second failed')
+        expect(steps).toEqual(['second', 'first'])
+    })
+
+    it('should require a scope to acquire resources', () => {
+        function* program() {
+            return yield* Scope.acquireRelease(
+                function* () {
+                    return 'resource'
+                },
+                () => {},
+            )
+        }
+
+        // @ts-expect-error ScopeCtx is not handled
+        expect(() => Koka.runSync(program)).toThrow('Unhandled effect')
+    })
+})
@@ -0,0 +1,260 @@
+import * as Koka from '../src/koka'
+import * as Stream from '../src/stream'
+import * as Async from '../src/async'
+import * as Ctx from '../src/ctx'
+import * as Err from '../src/err'
+import * as Result from '../src/result'
+import { TestRuntime } from '../src/test-runtime'
+
+describe('Stream.emit', () => {
+    it('should create emit effect', () => {
+        const gen = Stream.emit(1)
+
+        expect(gen.next()).toEqual({ done: false, value: { type: 'emit', value: 1 } })
+        expect(gen.next()).toEqual({ done: true, value: undefined })
+    })
+})
+
+describe('Stream.collect', () => {
+    it('should collect values of iterable', () => {
+        const result = Koka.runSync(Stream.collect(Stream.fromIterable([1, 2, 3])))
+
+        expect(result).toEqual([1, 2, 3])
+    })
+
+    it('should collect values of custom stream', async () => {
+        type Page = { items: number[]; next?: number }
+
+        const pages: Record<number, Page> = {
+            0: { items: [1, 2], next: 1 },
+            1: { items: [3, 4], next: 2 },
+            2: { items: [5] },
+        }
+
+        const fetchPage = (cursor: number) => Promise.resolve(pages[cursor])
+
+        const paginate: Stream.Stream<Async.Async, number[]> = function* () {
+            let cursor: number | undefined = 0
+
+            while (cursor !== undefined) {
+                const page: Page = yield* Async.await(fetchPage(cursor))
+                yield* Stream.emit(page.items)
+                cursor = page.next
+            }
+        }
+
+        const result = await Koka.runAsync(Stream.collect(paginate))
+
+        expect(result).toEqual([[1, 2], [3, 4], [5]])
+    })
+})
+
+describe('Stream.fromAsyncIterable', () => {
+    it('should emit values of async iterable', async () => {
+        async function* numbers() {
+            yield 1
+            yield 2
+            yield 3
+        }
+
+        const result = await Koka.runAsync(Stream.collect(Stream.fromAsyncIterable(numbers())))
+
+        expect(result).toEqual([1, 2, 3])
+    })
+
+    it('should close the iterator when the consumer stops early', async () => {
+        const steps = [] as string[]
+
+        async function* numbers() {
+            try {
+                for (let i = 0; ; i++) {
+                    steps.push(`produce ${i}`)
+                    yield i
+                }
+            } finally {
+                steps.push('closed')
+            }
+        }
+
+        const result = await Koka.runAsync(Stream.collect(Stream.take(Stream.fromAsyncIterable(numbers()), 2)))
+
+        await Promise.resolve()
+
+        expect(result).toEqual([0, 1])
+        expect(steps).toEqual(['produce 0', 'produce 1', 'closed'])
+    })
+
+    it('should wait for the iterator to be closed and throw its rejection', async () => {
+        const iterable: AsyncIterable<number> = {
+            [Symbol.asyncIterator]: () => ({
+                next: async () => ({ done: false, value: 1 }),
+                return: async () => {
+                    throw new Error('close failed')
+                },
+            }),
+        }
+
+        await expect(Koka.runAsync(Stream.collect(Stream.take(Stream.fromAsyncIterable(iterable), 1)))).rejects.toThrow(
+            'close failed',
+        )
+    })
+
+    it('should not be run without handling its emit effects', () => {
+        const stream = Stream.fromIterable([1, 2, 3])
+
+        // @ts-expect-error emit effects are not handled by the runners
+        expect(() => Koka.runSync(stream)).toThrow(Koka.UnhandledEffectError)
+    })
+})
+
+describe('Stream.map and Stream.filter', () => {
+    it('should map values with plain functions', () => {
+        const stream = Stream.map(Stream.fromIterable([1, 2, 3]), (value, index) => `${index}:${value * 2}`)
+
+        expect(Koka.runSync(Stream.collect(stream))).toEqual(['0:2', '1:4', '2:6'])
+    })
+
+    it('should map values with effectors', async () => {
+        class Multiplier extends Ctx.Ctx('Multiplier')<number> {}
+
+        const stream = Stream.map(Stream.fromIterable([1, 2, 3]), function* (value) {
+            const multiplier = yield* Ctx.get(Multiplier)
+            return yield* Async.await(Promise.resolve(value * multiplier))
+        })
+
+        const result = await Koka.runAsync(Koka.try(Stream.collect(stream)).handle({ Multiplier: 10 }))
+
+        expect(result).toEqual([10, 20, 30])
+    })
+
+    it('should filter values', async () => {
+        const stream = Stream.filter(Stream.fromIterable([1, 2, 3, 4, 5]), function* (value) {
+            return yield* Async.await(Promise.resolve(value % 2 === 1))
+        })
+
+        expect(await Koka.runAsync(Stream.collect(stream))).toEqual([1, 3, 5])
+    })
+
+    it('should propagate error effects of mapper', () => {
+        class InvalidErr extends Err.Err('InvalidErr')<number> {}
+
+        const stream = Stream.map(Stream.fromIterable([1, -1, 2]), function* (value) {
+            if (value < 0) {
+                throw yield* Err.throw(new InvalidErr(value))
+            }
+            return value
+        })
+
+        expect(Result.runSync(Stream.collect(stream))).toEqual(new InvalidErr(-1))
+    })
+})
+
+describe('Stream.take', () => {
+    it('should take values and clean up the source', () => {
+        const steps = [] as string[]
+
+        const source: Stream.Stream<never, number> = function* () {
+            try {
+                for (let i = 0; ; i++) {
+                    steps.push(`emit ${i}`)
+                    yield* Stream.emit(i)
+                }
+            } finally {
+                steps.push('finally')
+            }
+        }
+
+        expect(Koka.runSync(Stream.collect(Stream.take(source, 3)))).toEqual([0, 1, 2])
+        expect(steps).toEqual(['emit 0', 'emit 1', 'emit 2', 'finally'])
+    })
+
+    it('should not start the source when taking nothing', () => {
+        let started = false
+
+        const source: Stream.Stream<never, number> = function* () {
+            started = true
+            yield* Stream.emit(1)
+        }
+
+        expect(Koka.runSync(Stream.collect(Stream.take(source, 0)))).toEqual([])
+        expect(started).toBe(false)
+    })
+})
+
+describe('Stream.merge', () => {
+    it('should emit values of streams as soon as they are produced', async () => {
+        const runtime = new TestRuntime()
+
+        const ticker = (name: string, ms: number, count: number): Stream.Stream<Async.Async | Async.ClockOpt, string> =>
+            function* () {
+                for (let i = 0; i < count; i++) {
+                    yield* Async.sleep(ms)
+                    yield* Stream.emit(`${name}${i}`)
+                }
+            }
+
+        const run = runtime.run(Stream.collect(Stream.merge(ticker('a', 30, 2), ticker('b', 20, 3))))
+
+        await runtime.runAll()
+
+        expect(await run.promise).toEqual(['b0', 'a0', 'b1', 'a1', 'b2'])
+    })
+})
+
+describe('Stream.forEach', () => {
+    it('should not pull the next value before the callback completed', async () => {
+        const runtime = new TestRuntime()
+        const steps = [] as string[]
+
+        const source: Stream.Stream<never, number> = function* () {
+            for (let i = 0; i < 3; i++) {
+                steps.push(`produce ${i}`)
+                yield* Stream.emit(i)
+            }
+        }
+
+        const run = runtime.run(
+            Stream.forEach(source, function* (value, index) {
+                yield* Async.sleep(100)
+                steps.push(`consume ${value} at ${index}`)
+            }),
+        )
+
+        await runtime.advanceBy(100)
+        expect(steps).toEqual(['produce 0', 'consume 0 at 0', 'produce 1'])
+
+        await runtime.runAll()
+        await run.promise
+
+        expect(steps).toEqual([
+            'produce 0',
+            'consume 0 at 0',
+            'produce 1',
+            'consume 1 at 1',
+            'produce 2',
+            'consume 2 at 2',
+        ])
+    })
+
+    it('should clean up the stream when the callback throws', () => {
+        const steps = [] as string[]
+
+        const source: Stream.Stream<never, number> = function* () {
+            try {
+                yield* Stream.emit(1)
+                yield* Stream.emit(2)
+            } finally {
+                steps.push('finally')
+            }
+        }
+
+        expect(() =>
+            Koka.runSync(
+                Stream.forEach(source, () => {
+                    throw new Error('failed')
+                }),
+            ),
+        ).toThrow('failed')
+        expect(steps).toEqual(['finally'])
+    })
+})
@@ -3,6 +3,8 @@ import * as Task from '../src/task'
 import * as Result from '../src/result'
 import * as Async from '../src/async'
 import * as Err from '../src/err'
+import * as Gen from '../src/gen'
+import { TestRuntime } from '../src/test-runtime'
 
 const delayTime = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
@@ -638,6 +640,53 @@ describe('Task.concurrent', () => {
     })
 })
 
+describe('Task.concurrent with abort signal', () => {
+    it('should run finally blocks of every live generator when aborted', async () => {
+        const controller = new AbortController()
+        const cleanups = [] as number[]
+
+        function* task(index: number) {
+            try {
+                yield* Async.await(new Promise(() => {}))
+                return index
+            } finally {
+                cleanups.push(index)
+            }
+        }
+
+        const promise = Koka.runAsync(Task.all([task(0), task(1), task(2)]), { signal: controller.signal })
+
+        await delayTime(1)
+        controller.abort()
+
+        await expect(promise).rejects.toBeInstanceOf(Async.AbortError)
+        expect(cleanups.sort()).toEqual([0, 1, 2])
+    })
+
+    it('should let tasks observe the abort signal', async () => {
+        const controller = new AbortController()
+        const aborted = [] as number[]
+
+        function* task(index: number) {
+            const signal = yield* Async.signal()
+
+            signal.addEventListener('abort', () => {
+                aborted.push(index)
+            })
+
+            yield* Async.await(new Promise(() => {}))
+        }
+
+        const promise = Koka.runAsync(Task.all([task(0), task(1)]), { signal: controller.signal })
+
+        await delayTime(1)
+        controller.abort()
+
+        await expect(promise).rejects.toBeInstanceOf(Async.AbortError)
+        expect(aborted).toEqual([0, 1])
+    })
+})
+
 describe('Stream maxConcurrency and TaskProducer', () => {
     it('should respect maxConcurrency limit', async () => {
         const activeTasks: number[] = []
@@ -1782,4 +1831,964 @@ describe('Concurrent with cleanup and resource management', () => {
         await expect(Result.runAsync(Task.concurrent(inputs, handler))).rejects.toThrow('Handler error')
         expect(cleanupCalls).toEqual([0, 1])
     })
+
+    it('should wait for async cleanup of remaining tasks', async () => {
+        class TaskErr extends Err.Err('TaskErr')<string> {}
+
+        const steps = [] as string[]
+
+        function* taskWithAsyncCleanup(index: number) {
+            try {
+                yield* Async.await(delayTime(20))
+                return `task-${index}`
+            } finally {
+                yield* Async.await(delayTime(5))
+                steps.push(`cleanup ${index}`)
+            }
+        }
+
+        function* failingTask(): Generator<Async.Async | TaskErr, string> {
+            yield* Async.await(delayTime(5))
+            throw yield* Err.throw(new TaskErr('failed'))
+        }
+
+        const result = await Result.runAsync(Task.all([taskWithAsyncCleanup(0), failingTask, taskWithAsyncCleanup(1)]))
+
+        expect(result).toEqual(new TaskErr('failed'))
+        expect(steps).toEqual(['cleanup 0', 'cleanup 1'])
+    })
+})
+
+describe('Task.concurrent with supervisor', () => {
+    class TaskErr extends Err.Err('TaskErr')<string> {}
+
+    const createSupervisor = (events: string[]): Task.Supervisor => {
+        return {
+            onStart: (task) => events.push(`start ${task.index}`),
+            onEnd: (task, exit) => {
+                if (exit.type === 'ok') {
+                    events.push(`ok ${task.index} ${exit.value}`)
+                } else {
+                    events.push(`${exit.cause.type} ${task.index}`)
+                }
+            },
+        }
+    }
+
+    it('should observe the start and the end of tasks', async () => {
+        const events = [] as string[]
+
+        function* task(value: number) {
+            yield* Async.await(delayTime(value))
+            return value
+        }
+
+        const program = Task.supervise(Task.all([task(10), task(5)], { maxConcurrency: 1 }), createSupervisor(events))
+
+        expect(await Koka.runAsync(program)).toEqual([10, 5])
+        expect(events).toEqual(['start 0', 'ok 0 10', 'start 1', 'ok 1 5'])
+    })
+
+    it('should observe failed and interrupted tasks', async () => {
+        const events = [] as string[]
+
+        function* failing(): Generator<Async.Async | TaskErr, string> {
+            yield* Async.await(delayTime(5))
+            throw yield* Err.throw(new TaskErr('failed'))
+        }
+
+        function* slow() {
+            yield* Async.await(delayTime(50))
+            return 'slow'
+        }
+
+        function* throwing() {
+            yield* Async.await(Promise.resolve())
+            throw new Error('thrown')
+        }
+
+        const program = Task.supervise(Task.all([failing, slow]), createSupervisor(events))
+
+        expect(await Result.runAsync(program)).toEqual(new TaskErr('failed'))
+        expect(events).toEqual(['start 0', 'start 1', 'fail 0', 'interrupt 1'])
+
+        events.length = 0
+
+        const thrown = Task.supervise(Task.all([throwing]), createSupervisor(events))
+
+        await expect(Koka.runAsync(thrown)).rejects.toThrow('thrown')
+        expect(events).toEqual(['start 0', 'die 0'])
+    })
+
+    it('should observe the tasks which lost the race', async () => {
+        const events = [] as string[]
+
+        function* task(value: number) {
+            yield* Async.await(delayTime(value))
+            return value
+        }
+
+        const program = Task.supervise(Task.race([task(50), task(5)]), createSupervisor(events))
+
+        expect(await Koka.runAsync(program)).toBe(5)
+        expect(events).toEqual(['start 0', 'start 1', 'ok 1 5', 'interrupt 0'])
+    })
+
+    it('should observe the nested tasks started after awaiting, without yielding opt effects', async () => {
+        const events = [] as string[]
+        const effects = [] as string[]
+
+        function* task(value: number) {
+            yield* Async.await(Promise.resolve())
+            return value
+        }
+
+        function* program() {
+            yield* Async.await(Promise.resolve())
+            const [nested] = yield* Task.all([() => Task.all([task(1)])])
+            const [value] = yield* Task.all([task(2)])
+
+            return [nested, value]
+        }
+
+        const gen = Task.supervise(program, createSupervisor(events))
+
+        let result = gen.next()
+
+        while (!result.done) {
+            const effect = result.value
+
+            effects.push(effect.type)
+            result = gen.next(effect.type === 'async' ? await effect.promise : undefined)
+        }
+
+        expect(result.value).toEqual([[1], 2])
+        expect(effects.every((type) => type === 'async')).toBe(true)
+        expect(events).toEqual(['start 0', 'start 0', 'ok 0 1', 'ok 0 1', 'start 0', 'ok 0 2'])
+    })
+})
+
+describe('Task.withPermits', () => {
+    class ApiErr extends Err.Err('ApiErr')<string> {}
+
+    it('should share the permits across runs', async () => {
+        const runtime = new TestRuntime()
+        const semaphore = Task.createSemaphore(2)
+        const steps = [] as string[]
+
+        function* call(name: string) {
+            return yield* Task.withPermits(semaphore, function* () {
+                steps.push(`start ${name} ${runtime.now()}`)
+                yield* Async.sleep(10)
+                return name
+            })
+        }
+
+        const runs = [runtime.run(call('a')), runtime.run(Task.all([call('b'), call('c')]))]
+
+        await runtime.runAll()
+
+        expect(await runs[0].promise).toBe('a')
+        expect(await runs[1].promise).toEqual(['b', 'c'])
+        expect(steps).toEqual(['start a 0', 'start b 0', 'start c 10'])
+        expect(semaphore.available()).toBe(2)
+    })
+
+    it('should wait in order for multiple permits', async () => {
+        const runtime = new TestRuntime()
+        const semaphore = Task.createSemaphore(3)
+        const steps = [] as string[]
+
+        function* call(name: string, permits: number, ms: number) {
+            yield* Task.withPermits(
+                semaphore,
+                function* () {
+                    steps.push(`start ${name} ${runtime.now()}`)
+                    yield* Async.sleep(ms)
+                },
+                permits,
+            )
+        }
+
+        runtime.run(Task.all([call('a', 2, 10), call('b', 2, 10), call('c', 1, 10)]))
+
+        await runtime.runAll()
+
+        expect(steps).toEqual(['start a 0', 'start b 10', 'start c 10'])
+    })
+
+    it('should release the permits when the generator is cleaned up', () => {
+        const semaphore = Task.createSemaphore(1)
+
+        function* task() {
+            yield* Async.await(new Promise(() => {}))
+        }
+
+        const holding = Task.withPermits(semaphore, task)
+        const waiting = Task.withPermits(semaphore, task)
+
+        expect(holding.next().done).toBe(false)
+        expect(waiting.next().done).toBe(false)
+        expect(semaphore.available()).toBe(0)
+        expect(semaphore.waiting()).toBe(1)
+
+        Gen.cleanUpGen(waiting)
+
+        expect(semaphore.waiting()).toBe(0)
+
+        Gen.cleanUpGen(holding)
+
+        expect(semaphore.available()).toBe(1)
+    })
+
+    it('should release the permits granted to a waiter cleaned up before resuming', () => {
+        const semaphore = Task.createSemaphore(1)
+
+        function* task() {
+            yield* Async.await(new Promise(() => {}))
+        }
+
+        const holding = Task.withPermits(semaphore, task)
+        const waiting = Task.withPermits(semaphore, task)
+
+        holding.next()
+        waiting.next()
+        Gen.cleanUpGen(holding)
+
+        expect(semaphore.available()).toBe(0)
+
+        Gen.cleanUpGen(waiting)
+
+        expect(semaphore.available()).toBe(1)
+    })
+
+    it('should release the permits when the effector fails', async () => {
+        const semaphore = Task.createSemaphore(1)
+
+        function* failing(): Generator<ApiErr, string> {
+            throw yield* Err.throw(new ApiErr('failed'))
+        }
+
+        expect(await Result.runAsync(Task.withPermits(semaphore, failing))).toEqual(new ApiErr('failed'))
+        expect(semaphore.available()).toBe(1)
+    })
+
+    it('should reject invalid permits', async () => {
+        expect(() => Task.createSemaphore(0)).toThrow('permits must be a positive integer')
+        await expect(Koka.runAsync(Task.withPermits(Task.createSemaphore(1), Gen.of(1), 2))).rejects.toThrow(
+            'permits must be a positive integer not greater than 1',
+        )
+    })
+})
+
+describe('Task.withLock', () => {
+    it('should run the effectors one at a time', async () => {
+        const mutex = Task.createMutex()
+        const steps = [] as string[]
+
+        function* update(name: string) {
+            yield* Task.withLock(mutex, function* () {
+                steps.push(`lock ${name}`)
+                yield* Async.await(delayTime(5))
+                steps.push(`unlock ${name}`)
+            })
+        }
+
+        await Promise.all([Koka.runAsync(update('a')), Koka.runAsync(update('b'))])
+
+        expect(steps).toEqual(['lock a', 'unlock a', 'lock b', 'unlock b'])
+    })
+})
+
+describe('Task.withRateLimit', () => {
+    it('should start the effectors at the rate of the limiter', async () => {
+        const runtime = new TestRuntime()
+        const limiter = Task.createRateLimiter({ limit: 2, interval: 100 })
+        const starts = [] as number[]
+
+        function* call() {
+            yield* Task.withRateLimit(limiter, function* () {
+                starts.push(runtime.now())
+            })
+        }
+
+        runtime.run(Task.all([call, call, call, call, call]))
+
+        await runtime.runAll()
+
+        expect(starts).toEqual([0, 0, 50, 100, 150])
+    })
+
+    it('should refill the tokens up to the limit', async () => {
+        const runtime = new TestRuntime()
+        const limiter = Task.createRateLimiter({ limit: 2, interval: 100 })
+        const starts = [] as number[]
+
+        function* call() {
+            yield* Task.withRateLimit(limiter, function* () {
+                starts.push(runtime.now())
+            })
+        }
+
+        runtime.run(Task.all([call, call]))
+        await runtime.runAll()
+        await runtime.advanceBy(1000)
+        runtime.run(Task.all([call, call, call]))
+        await runtime.runAll()
+
+        expect(starts).toEqual([0, 0, 1000, 1000, 1050])
+    })
+
+    it('should remove an effector cleaned up while waiting', async () => {
+        const runtime = new TestRuntime()
+        const limiter = Task.createRateLimiter({ limit: 1, interval: 100 })
+        const controller = new AbortController()
+
+        runtime.run(Task.withRateLimit(limiter, Gen.of(1)))
+
+        const aborted = runtime.run(Task.withRateLimit(limiter, Gen.of(2)), { signal: controller.signal })
+
+        expect(limiter.tokens()).toBe(0)
+        expect(limiter.waiting()).toBe(1)
+
+        controller.abort()
+        await expect(aborted.promise).rejects.toThrow(Async.AbortError)
+
+        expect(limiter.tokens()).toBe(0)
+        expect(limiter.waiting()).toBe(0)
+    })
+
+    it('should start the next waiter earlier when a waiter before it is cleaned up', async () => {
+        const runtime = new TestRuntime()
+        const limiter = Task.createRateLimiter({ limit: 1, interval: 100 })
+        const controller = new AbortController()
+        const starts = [] as number[]
+
+        function* call() {
+            yield* Task.withRateLimit(limiter, function* () {
+                starts.push(runtime.now())
+            })
+        }
+
+        runtime.run(call())
+
+        const aborted = runtime.run(call(), { signal: controller.signal })
+        const queued = runtime.run(call())
+
+        await runtime.advanceBy(10)
+        controller.abort()
+        await expect(aborted.promise).rejects.toThrow(Async.AbortError)
+        await runtime.runAll()
+        await queued.promise
+
+        expect(starts).toEqual([0, 100])
+    })
+})
+
+describe('Task.allSettled', () => {
+    class ImportErr extends Err.Err('ImportErr')<string> {}
+
+    function* importRow(row: string) {
+        yield* Async.await(delayTime(row.length))
+
+        if (row.startsWith('!')) {
+            throw yield* Err.throw(new ImportErr(row))
+        }
+
+        return row.toUpperCase()
+    }
+
+    it('should return the result of each task', async () => {
+        function* program() {
+            return yield* Task.allSettled([importRow('a'), importRow('!bb'), importRow('ccc')])
+        }
+
+        const results: Array<Result.Result<string, ImportErr>> = await Koka.runAsync(program)
+
+        expect(results).toEqual([Result.ok('A'), new ImportErr('!bb'), Result.ok('CCC')])
+    })
+
+    it('should not interrupt the other tasks when a task fails', async () => {
+        const done = [] as string[]
+
+        function* task(row: string) {
+            const value = yield* importRow(row)
+            done.push(value)
+            return value
+        }
+
+        const results = await Koka.runAsync(Task.allSettled([task('!a'), task('bbb')], { maxConcurrency: 1 }))
+
+        expect(results).toEqual([new ImportErr('!a'), Result.ok('BBB')])
+        expect(done).toEqual(['BBB'])
+    })
+
+    it('should fail all tasks when a task throws', async () => {
+        function* throwing(): Generator<Async.Async, string> {
+            yield* Async.await(Promise.resolve())
+            throw new Error('thrown')
+        }
+
+        await expect(Koka.runAsync(Task.allSettled([importRow('a'), throwing]))).rejects.toThrow('thrown')
+    })
+})
+
+describe('Task.any', () => {
+    class FetchErr extends Err.Err('FetchErr')<string> {}
+
+    function* fetchFrom(mirror: string, ms: number, ok: boolean) {
+        yield* Async.await(delayTime(ms))
+
+        if (!ok) {
+            throw yield* Err.throw(new FetchErr(mirror))
+        }
+
+        return mirror
+    }
+
+    it('should return the first task succeeding', async () => {
+        const program = Task.any([fetchFrom('a', 5, false), fetchFrom('b', 20, true), fetchFrom('c', 10, true)])
+
+        expect(await Result.runAsync(program)).toEqual(Result.ok('c'))
+    })
+
+    it('should interrupt the other tasks after a task succeeds', async () => {
+        const steps = [] as string[]
+
+        function* slow() {
+            try {
+                yield* Async.await(delayTime(50))
+                return 'slow'
+            } finally {
+                steps.push('slow cleaned up')
+            }
+        }
+
+        const result = await Result.runAsync(Task.any([slow, fetchFrom('fast', 5, true)]))
+
+        expect(result).toEqual(Result.ok('fast'))
+        expect(steps).toEqual(['slow cleaned up'])
+    })
+
+    it('should throw an AggregateErr with the errs of all tasks when all fail', async () => {
+        const program = Task.any([fetchFrom('a', 10, false), fetchFrom('b', 5, false)])
+
+        const result = await Koka.runAsync(
+            Koka.try(program).handle({
+                AggregateErr: (errors: FetchErr[]) => errors.map((error) => error.error),
+            }),
+        )
+
+        expect(result).toEqual(['a', 'b'])
+        expect(await Result.runAsync(Task.any([]))).toEqual(new Task.AggregateErr([]))
+    })
+})
+
+describe('Task.concurrent with errorMode isolate', () => {
+    class SyncErr extends Err.Err('SyncErr')<number> {}
+
+    function* sync(id: number) {
+        yield* Async.await(delayTime(id))
+
+        if (id % 2 === 0) {
+            throw yield* Err.throw(new SyncErr(id))
+        }
+
+        return `synced ${id}`
+    }
+
+    it('should deliver the err effects of tasks to the handler as results', async () => {
+        function* program() {
+            return yield* Task.concurrent(
+                [sync(1), sync(2), sync(3)],
+                async (stream) => {
+                    const results = [] as Array<Result.Result<string, SyncErr>>
+
+                    for await (const { index, value } of stream) {
+                        results[index] = value
+                    }
+
+                    return results
+                },
+                { errorMode: 'isolate' },
+            )
+        }
+
+        const results = await Koka.runAsync(program)
+
+        expect(results).toEqual([Result.ok('synced 1'), new SyncErr(2), Result.ok('synced 3')])
+    })
+
+    it('should let the handler stop after a failure', async () => {
+        const started = [] as number[]
+
+        function* task(id: number) {
+            started.push(id)
+            return yield* sync(id)
+        }
+
+        const program = Task.concurrent(
+            (index) => (index < 5 ? task(index + 1) : undefined),
+            async (stream) => {
+                for await (const { value } of stream) {
+                    if (value.type === 'err') {
+                        return value.error
+                    }
+                }
+            },
+            { errorMode: 'isolate', maxConcurrency: 1 },
+        )
+
+        expect(await Koka.runAsync(program)).toBe(2)
+        expect(started).toEqual([1, 2, 3])
+    })
+
+    it('should report isolated failures to the supervisor', async () => {
+        const events = [] as string[]
+
+        const program = Task.supervise(
+            Task.concurrent(
+                [sync(1), sync(2)],
+                async (stream) => {
+                    for await (const _ of stream) {
+                        // consume all results
+                    }
+                },
+                { errorMode: 'isolate' },
+            ),
+            {
+                onEnd: (task, exit) => {
+                    events.push(`${exit.type} ${task.index}`)
+                },
+            },
+        )
+
+        await Koka.runAsync(program)
+
+        expect(events).toEqual(['ok 0', 'failure 1'])
+    })
+
+    it('should still fail on thrown errors', async () => {
+        function* throwing(): Generator<Async.Async, string> {
+            yield* Async.await(Promise.resolve())
+            throw new Error('thrown')
+        }
+
+        const program = Task.concurrent(
+            [sync(1), throwing()],
+            async (stream) => {
+                for await (const _ of stream) {
+                    // consume all results
+                }
+            },
+            { errorMode: 'isolate' },
+        )
+
+        await expect(Koka.runAsync(program)).rejects.toThrow('thrown')
+    })
+})
+
+describe('Task.createQueue', () => {
+    it('should run the tasks pushed by earlier tasks until the queue is closed', async () => {
+        const links: Record<string, string[]> = {
+            '/': ['/a', '/b'],
+            '/a': ['/c'],
+            '/b': ['/c'],
+            '/c': [],
+        }
+
+        const queue = Task.createQueue<Async.Async, string>()
+        const visited = new Set<string>()
+
+        let pending = 0
+
+        function* crawl(url: string): Generator<Async.Async, void> {
+            pending++
+            visited.add(url)
+            yield* queue.push(function* (): Generator<Async.Async, string> {
+                yield* Async.await(delayTime(5))
+
+                for (const link of links[url]) {
+                    if (!visited.has(link)) {
+                        yield* crawl(link)
+                    }
+                }
+
+                if (--pending === 0) {
+                    queue.close()
+                }
+
+                return url
+            })
+        }
+
+        function* program() {
+            yield* crawl('/')
+            return yield* Task.all(queue, { maxConcurrency: 2 })
+        }
+
+        expect(await Koka.runAsync(program)).toEqual(['/', '/a', '/b', '/c'])
+    })
+
+    it('should wait for tasks pushed while the tasks are running', async () => {
+        const runtime = new TestRuntime()
+        const queue = Task.createQueue<Async.Async | Async.ClockOpt, number>()
+
+        function* task(value: number) {
+            yield* Async.sleep(10)
+            return value
+        }
+
+        function* producer() {
+            for (let i = 0; i < 3; i++) {
+                yield* Async.sleep(20)
+                yield* queue.push(task(i))
+            }
+
+            queue.close()
+        }
+
+        const results = runtime.run(Task.all(queue))
+
+        runtime.run(producer)
+
+        await runtime.runAll()
+
+        expect(await results.promise).toEqual([0, 1, 2])
+        expect(runtime.now()).toBe(70)
+    })
+
+    it('should make pushing wait while the queue is full', async () => {
+        const runtime = new TestRuntime()
+        const queue = Task.createQueue<Async.Async | Async.ClockOpt, number>({ capacity: 1 })
+        const pushed = [] as number[]
+
+        function* task(value: number) {
+            yield* Async.sleep(10)
+            return value
+        }
+
+        function* producer() {
+            for (let i = 0; i < 4; i++) {
+                yield* queue.push(task(i))
+                pushed.push(runtime.now())
+            }
+
+            queue.close()
+        }
+
+        runtime.run(producer)
+
+        const results = runtime.run(Task.all(queue, { maxConcurrency: 1 }))
+
+        await runtime.runAll()
+
+        expect(await results.promise).toEqual([0, 1, 2, 3])
+        expect(pushed).toEqual([0, 0, 10, 20])
+    })
+
+    it('should remove a pushing effector cleaned up while waiting', async () => {
+        const queue = Task.createQueue<never, number>({ capacity: 1 })
+        const controller = new AbortController()
+
+        await Koka.runAsync(queue.push(Gen.of(1)))
+
+        const aborted = Koka.runAsync(queue.push(Gen.of(2)), { signal: controller.signal })
+        const pushing = Koka.runAsync(function* () {
+            yield* queue.push(Gen.of(3))
+            queue.close()
+        })
+
+        controller.abort()
+
+        await expect(aborted).rejects.toThrow(Async.AbortError)
+        expect(await Koka.runAsync(Task.all(queue))).toEqual([1, 3])
+        await pushing
+    })
+
+    it('should not wait forever when every task consuming the queue waits to push', async () => {
+        const queue = Task.createQueue<Async.Async, number>({ capacity: 2 })
+
+        let pending = 0
+
+        function* visit(depth: number): Generator<Async.Async, void> {
+            pending++
+            yield* queue.push(function* (): Generator<Async.Async, number> {
+                yield* Async.await(Promise.resolve())
+
+                if (depth < 3) {
+                    for (let i = 0; i < 3; i++) {
+                        yield* visit(depth + 1)
+                    }
+                }
+
+                if (--pending === 0) {
+                    queue.close()
+                }
+
+                return depth
+            })
+        }
+
+        function* program() {
+            yield* visit(0)
+            return yield* Task.all(queue, { maxConcurrency: 2 })
+        }
+
+        const results = await Koka.runAsync(program)
+
+        expect(results.length).toBe(1 + 3 + 9 + 27)
+    })
+
+    it('should keep the queue within its capacity when the tasks push to the queue they consume', async () => {
+        const runtime = new TestRuntime()
+        const queue = Task.createQueue<Async.Async | Async.ClockOpt, number>({ capacity: 2 })
+        const sizes = [] as number[]
+
+        let pushed = 0
+        let started = 0
+
+        function* leaf(value: number) {
+            started++
+            yield* Async.sleep(10)
+            return value
+        }
+
+        function* root() {
+            started++
+
+            for (let i = 1; i <= 6; i++) {
+                yield* queue.push(leaf(i))
+                pushed++
+                sizes.push(pushed - started)
+            }
+
+            queue.close()
+            return 0
+        }
+
+        const results = runtime.run(function* () {
+            yield* queue.push(root())
+            pushed++
+            return yield* Task.all(queue, { maxConcurrency: 2 })
+        })
+
+        await runtime.runAll()
+
+        expect(await results.promise).toEqual([0, 1, 2, 3, 4, 5, 6])
+        expect(Math.max(...sizes)).toBeLessThanOrEqual(2)
+    })
+
+    it('should reject pushing to a closed queue', async () => {
+        const queue = Task.createQueue<never, number>()
+
+        queue.close()
+
+        await expect(Koka.runAsync(queue.push(Gen.of(1)))).rejects.toThrow('Can not push tasks to a closed queue')
+        expect(await Koka.runAsync(Task.all(queue))).toEqual([])
+    })
+})
+
+describe('Task.concurrent with priority and dedupeKey', () => {
+    it('should start the tasks with higher priority first when a slot frees', async () => {
+        const started = [] as string[]
+        const names = ['low', 'high', 'medium', 'highest']
+        const priorities: Record<string, number> = { low: 0, medium: 1, high: 2, highest: 3 }
+
+        function* task(name: string) {
+            started.push(name)
+            yield* Async.await(delayTime(5))
+            return name
+        }
+
+        const results = await Koka.runAsync(
+            Task.all(
+                names.map((name) => task(name)),
+                {
+                    maxConcurrency: 1,
+                    priority: (index) => priorities[names[index]],
+                },
+            ),
+        )
+
+        expect(started).toEqual(['highest', 'high', 'medium', 'low'])
+        expect(results).toEqual(names)
+    })
+
+    it('should start the tasks with the same priority in order', async () => {
+        const started = [] as number[]
+
+        function* task(value: number) {
+            started.push(value)
+            yield* Async.await(Promise.resolve())
+            return value
+        }
+
+        await Koka.runAsync(
+            Task.all([task(0), task(1), task(2), task(3)], {
+                maxConcurrency: 2,
+                priority: (index) => (index === 3 ? 1 : 0),
+            }),
+        )
+
+        expect(started).toEqual([3, 0, 1, 2])
+    })
+
+    it('should take the tasks pushed to a queue by priority', async () => {
+        const runtime = new TestRuntime()
+        const queue = Task.createQueue<Async.Async | Async.ClockOpt, string>()
+        const priorities = [0, 0, 1, 2]
+        const started = [] as string[]
+
+        function* task(name: string) {
+            started.push(name)
+            yield* Async.sleep(10)
+            return name
+        }
+
+        function* producer() {
+            yield* queue.push(task('first'))
+            yield* Async.sleep(1)
+            yield* queue.push(task('low'))
+            yield* queue.push(task('medium'))
+            yield* queue.push(task('high'))
+            queue.close()
+        }
+
+        runtime.run(producer)
+
+        const results = runtime.run(Task.all(queue, { maxConcurrency: 1, priority: (index) => priorities[index] }))
+
+        await runtime.runAll()
+
+        expect(started).toEqual(['first', 'high', 'medium', 'low'])
+        expect(await results.promise).toEqual(['first', 'low', 'medium', 'high'])
+    })
+
+    it('should compare the priorities of a bounded lookahead of a producer', async () => {
+        let produced = 0
+
+        function* task(index: number) {
+            yield* Async.await(Promise.resolve())
+            return index
+        }
+
+        const producer = (index: number) => {
+            produced++
+            return task(index)
+        }
+
+        const winner = await Koka.runAsync(
+            Task.race(producer, {
+                maxConcurrency: 1,
+                priority: (index) => index % 10,
+            }),
+        )
+
+        // the lookahead of 64 tasks, refilled while the race is settling
+        expect(winner).toBe(9)
+        expect(produced).toBeLessThan(100)
+    })
+
+    it('should pull a producer of many tasks as the slots free', async () => {
+        const total = 10000
+        const started = [] as number[]
+
+        let produced = 0
+        let maxAhead = 0
+
+        function* task(index: number) {
+            started.push(index)
+            maxAhead = Math.max(maxAhead, produced - started.length)
+            yield* Async.await(Promise.resolve())
+            return index
+        }
+
+        const producer = (index: number) => {
+            if (index >= total) {
+                return
+            }
+
+            produced++
+            return () => task(index)
+        }
+
+        const results = await Koka.runAsync(
+            Task.all(producer, {
+                maxConcurrency: 4,
+                priority: (index) => -index,
+            }),
+        )
+
+        expect(results.length).toBe(total)
+        expect(started.slice(0, 4)).toEqual([0, 1, 2, 3])
+        // the lookahead of 64 tasks and the running tasks
+        expect(maxAhead).toBeLessThanOrEqual(64 + 4)
+    })
+
+    it('should share the execution of the tasks with the same key in flight', async () => {
+        const loads = [] as string[]
+        const urls = ['/users/1', '/users/2', '/users/1', '/users/1']
+
+        function* load(url: string) {
+            loads.push(url)
+            yield* Async.await(delayTime(5))
+            return { url, loaded: loads.length }
+        }
+
+        const results = await Koka.runAsync(
+            Task.all(
+                urls.map((url) => load(url)),
+                {
+                    dedupeKey: (index) => urls[index],
+                },
+            ),
+        )
+
+        expect(loads).toEqual(['/users/1', '/users/2'])
+        expect(results[0]).toBe(results[2])
+        expect(results[0]).toBe(results[3])
+        expect(results.map((result) => result.url)).toEqual(urls)
+    })
+
+    it('should run a task again when the task with the same key is done', async () => {
+        const loads = [] as string[]
+        const urls = ['/a', '/b', '/a']
+
+        function* load(url: string) {
+            loads.push(url)
+            yield* Async.await(delayTime(5))
+            return url
+        }
+
+        const results = await Koka.runAsync(
+            Task.all(
+                urls.map((url) => load(url)),
+                {
+                    maxConcurrency: 1,
+                    dedupeKey: (index) => urls[index],
+                },
+            ),
+        )
+
+        expect(loads).toEqual(['/a', '/b', '/a'])
+        expect(results).toEqual(urls)
+    })
+
+    it('should share the err of the task in flight with errorMode isolate', async () => {
+        class LoadErr extends Err.Err('LoadErr')<string> {}
+
+        let loads = 0
+
+        function* load(url: string): Generator<Async.Async | LoadErr, string> {
+            loads++
+            yield* Async.await(delayTime(5))
+            throw yield* Err.throw(new LoadErr(url))
+        }
+
+        const results = await Koka.runAsync(Task.allSettled([load('/a'), load('/a')], { dedupeKey: () => '/a' }))
+
+        expect(loads).toBe(1)
+        expect(results).toEqual([new LoadErr('/a'), new LoadErr('/a')])
+    })
 })
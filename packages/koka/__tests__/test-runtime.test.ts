@@ -0,0 +1,203 @@
+import * as Async from '../src/async'
+import * as Task from '../src/task'
+import * as Schedule from '../src/schedule'
+import * as Err from '../src/err'
+import * as Result from '../src/result'
+import { TestRuntime, VirtualClock } from '../src/test-runtime'
+
+describe('VirtualClock', () => {
+    it('should fire timers in order of time and creation', () => {
+        const clock = new VirtualClock()
+        const fired = [] as string[]
+
+        clock.setTimeout(() => fired.push('b'), 20)
+        clock.setTimeout(() => fired.push('a'), 10)
+        clock.setTimeout(() => fired.push('c'), 20)
+        const cleared = clock.setTimeout(() => fired.push('cleared'), 5)
+        clock.clearTimeout(cleared)
+
+        expect(clock.pendingTimers).toBe(3)
+
+        while (clock.fireNext(100)) {
+            fired.push(`@${clock.now()}`)
+        }
+
+        expect(fired).toEqual(['a', '@10', 'b', '@20', 'c', '@20'])
+        expect(clock.pendingTimers).toBe(0)
+    })
+
+    it('should not fire timers scheduled later than the given time', () => {
+        const clock = new VirtualClock()
+        const fired = [] as number[]
+
+        clock.setTimeout(() => fired.push(1), 10)
+
+        expect(clock.fireNext(5)).toBe(false)
+        expect(fired).toEqual([])
+        expect(clock.now()).toBe(0)
+    })
+})
+
+describe('TestRuntime', () => {
+    it('should advance the virtual clock', async () => {
+        const runtime = new TestRuntime()
+
+        function* program() {
+            const clock = yield* Async.getClock()
+            yield* Async.sleep(1000)
+            return clock.now()
+        }
+
+        const run = runtime.run(program)
+
+        await runtime.advanceBy(999)
+        expect(run.status()).toEqual({ type: 'pending' })
+
+        await runtime.advanceBy(1)
+        expect(run.status()).toEqual({ type: 'ok', value: 1000 })
+        expect(await run.promise).toBe(1000)
+        expect(runtime.now()).toBe(1000)
+    })
+
+    it('should report errors of the run', async () => {
+        const runtime = new TestRuntime()
+
+        function* program() {
+            yield* Async.sleep(10)
+            throw new Error('failed')
+        }
+
+        const run = runtime.run(program)
+
+        await runtime.advanceBy(10)
+
+        expect(run.status()).toEqual({ type: 'error', error: new Error('failed') })
+        await expect(run.promise).rejects.toThrow('failed')
+    })
+
+    it('should assert the exact interleaving of Task.concurrent', async () => {
+        const runtime = new TestRuntime()
+        const logs = [] as string[]
+
+        function* task(name: string, ms: number) {
+            const clock = yield* Async.getClock()
+            logs.push(`${name} start @${clock.now()}`)
+            yield* Async.sleep(ms)
+            logs.push(`${name} end @${clock.now()}`)
+            return name
+        }
+
+        const run = runtime.run(
+            Task.concurrent(
+                [task('a', 30), task('b', 10), task('c', 20), task('d', 10)],
+                async (stream) => {
+                    const names = [] as string[]
+
+                    for await (const { value } of stream) {
+                        names.push(value)
+                    }
+
+                    return names
+                },
+                { maxConcurrency: 2 },
+            ),
+        )
+
+        await runtime.advanceBy(10)
+        expect(logs).toEqual(['a start @0', 'b start @0', 'b end @10', 'c start @10'])
+
+        await runtime.runAll()
+
+        expect(logs).toEqual([
+            'a start @0',
+            'b start @0',
+            'b end @10',
+            'c start @10',
+            'a end @30',
+            'd start @30',
+            'c end @30',
+            'd end @40',
+        ])
+        expect(await run.promise).toEqual(['b', 'a', 'c', 'd'])
+    })
+
+    it('should clean up the losers of Task.race', async () => {
+        const runtime = new TestRuntime()
+
+        function* task(name: string, ms: number) {
+            yield* Async.sleep(ms)
+            return name
+        }
+
+        const run = runtime.run(Task.race([task('slow', 100), task('fast', 50)]))
+
+        await runtime.advanceBy(50)
+
+        expect(run.status()).toEqual({ type: 'ok', value: 'fast' })
+        expect(runtime.clock.pendingTimers).toBe(0)
+    })
+
+    it('should control the backoff of retry', async () => {
+        const runtime = new TestRuntime()
+        class FlakyErr extends Err.Err('FlakyErr')<void> {}
+
+        const attempts = [] as number[]
+
+        function* request() {
+            const clock = yield* Async.getClock()
+            attempts.push(clock.now())
+
+            if (attempts.length < 3) {
+                yield* Err.throw(new FlakyErr())
+            }
+
+            return 'ok'
+        }
+
+        const run = runtime.run(
+            Result.wrap(
+                Schedule.retry(request, {
+                    on: ['FlakyErr'],
+                    backoff: Schedule.exponential(100),
+                }),
+            ),
+        )
+
+        await runtime.runAll()
+
+        expect(attempts).toEqual([0, 100, 300])
+        expect(await run.promise).toEqual(Result.ok('ok'))
+    })
+
+    it('should support aborting the run', async () => {
+        const runtime = new TestRuntime()
+        const controller = new AbortController()
+
+        function* program() {
+            yield* Async.sleep(100)
+        }
+
+        const run = runtime.run(program, { signal: controller.signal })
+
+        await runtime.advanceBy(50)
+        controller.abort()
+        await runtime.flush()
+
+        expect(run.status()).toEqual({ type: 'error', error: expect.any(Async.AbortError) })
+        expect(runtime.clock.pendingTimers).toBe(0)
+    })
+
+    it('should throw when timers are scheduled endlessly', async () => {
+        const runtime = new TestRuntime({ maxTimers: 10 })
+
+        function* program() {
+            while (true) {
+                yield* Async.sleep(1)
+            }
+        }
+
+        runtime.run(program)
+
+        await expect(runtime.runAll()).rejects.toThrow('Exceeded 10 timers')
+    })
+})
@@ -0,0 +1,264 @@
+import * as Koka from '../src/koka'
+import * as Trace from '../src/trace'
+import * as Async from '../src/async'
+import * as Err from '../src/err'
+import * as Ctx from '../src/ctx'
+import * as Task from '../src/task'
+import * as Result from '../src/result'
+import { TestRuntime } from '../src/test-runtime'
+
+class NotFoundErr extends Err.Err('NotFoundErr')<string> {}
+
+const createCollector = () => {
+    let id = 0
+
+    return Trace.createCollector({
+        generateId: (bytes) => `${++id}`.padStart(bytes * 2, '0'),
+    })
+}
+
+function* loadUser(id: string) {
+    return yield* Trace.span(
+        'loadUser',
+        function* () {
+            yield* Async.sleep(10)
+
+            if (id === 'missing') {
+                throw yield* Err.throw(new NotFoundErr(id))
+            }
+
+            return { id }
+        },
+        { 'user.id': id },
+    )
+}
+
+describe('Trace.span', () => {
+    it('should run the effector without recording when tracing is disabled', () => {
+        function* test() {
+            return yield* Trace.span('test', function* () {
+                return 42
+            })
+        }
+
+        expect(Koka.runSync(test)).toBe(42)
+    })
+
+    it('should record nested spans across Koka.try and Async.await', async () => {
+        const runtime = new TestRuntime()
+        const collector = createCollector()
+
+        function* loadPage() {
+            return yield* Trace.span('loadPage', function* () {
+                const user = yield* Koka.try(loadUser('1')).handle({
+                    NotFoundErr: () => null,
+                })
+                const fallback = yield* Koka.try(loadUser('missing')).handle({
+                    NotFoundErr: () => null,
+                })
+                return [user, fallback]
+            })
+        }
+
+        const run = runtime.run(Koka.try(loadPage).handle({ [Trace.TracerOpt.field]: collector }))
+
+        await runtime.runAll()
+
+        expect(await run.promise).toEqual([{ id: '1' }, null])
+
+        const [root] = collector.spans
+
+        expect(collector.spans).toHaveLength(1)
+        expect(root).toMatchObject({
+            name: 'loadPage',
+            startTime: 0,
+            endTime: 20,
+            status: 'ok',
+            result: Result.ok([{ id: '1' }, null]),
+        })
+        expect(root.children).toMatchObject([
+            {
+                name: 'loadUser',
+                traceId: root.traceId,
+                parentSpanId: root.spanId,
+                startTime: 0,
+                endTime: 10,
+                status: 'ok',
+                attributes: { 'user.id': '1' },
+                events: [{ type: 'async', time: 0 }],
+            },
+            {
+                name: 'loadUser',
+                traceId: root.traceId,
+                parentSpanId: root.spanId,
+                startTime: 10,
+                endTime: 20,
+                status: 'error',
+                result: new NotFoundErr('missing'),
+                events: [
+                    { type: 'async', time: 10 },
+                    { type: 'err', name: 'NotFoundErr', time: 20 },
+                ],
+            },
+        ])
+        expect(root.events).toEqual([])
+    })
+
+    it('should record an effect reused across sibling spans in each span', () => {
+        class Config extends Ctx.Ctx('Config')<string> {}
+
+        const collector = createCollector()
+        const config = new Config()
+
+        function* readConfig() {
+            return (yield config) as string
+        }
+
+        function* program() {
+            const first = yield* Trace.span('first', readConfig)
+            const second = yield* Trace.span('second', readConfig)
+            return [first, second]
+        }
+
+        const result = Koka.runSync(
+            Koka.try(program).handle({
+                Config: 'value',
+                [Trace.TracerOpt.field]: collector,
+            }),
+        )
+
+        expect(result).toEqual(['value', 'value'])
+        expect(collector.spans.map((span) => span.events.map((event) => event.name))).toEqual([['Config'], ['Config']])
+    })
+
+    it('should record concurrent spans of Task.concurrent', async () => {
+        const runtime = new TestRuntime()
+        const collector = createCollector()
+
+        function* task(name: string, ms: number) {
+            return yield* Trace.span(name, function* () {
+                yield* Async.sleep(ms)
+                return name
+            })
+        }
+
+        function* program() {
+            return yield* Trace.span('race', Task.race([task('slow', 100), task('fast', 50)]))
+        }
+
+        const run = runtime.run(Koka.try(program).handle({ [Trace.TracerOpt.field]: collector }))
+
+        await runtime.runAll()
+
+        expect(await run.promise).toBe('fast')
+        expect(collector.spans[0].children).toMatchObject([
+            { name: 'slow', startTime: 0, endTime: 50, status: 'interrupted' },
+            { name: 'fast', startTime: 0, endTime: 50, status: 'ok' },
+        ])
+    })
+
+    it('should record thrown errors', () => {
+        const collector = createCollector()
+
+        function* program() {
+            return yield* Trace.span('fail', function* (): Generator<never, number> {
+                throw new Error('failed')
+            })
+        }
+
+        expect(() => Koka.run(program, { [Trace.TracerOpt.field]: collector })).toThrow('failed')
+        expect(collector.spans[0]).toMatchObject({
+            status: 'error',
+            error: new Error('failed'),
+        })
+    })
+
+    it('should notify the tracer when spans start and end', () => {
+        const steps = [] as string[]
+
+        const tracer: Trace.Tracer = {
+            onStart: (span) => steps.push(`start ${span.name}`),
+            onEnd: (span) => steps.push(`end ${span.name}`),
+        }
+
+        function* program() {
+            return yield* Trace.span(
+                'outer',
+                Trace.span('inner', function* () {
+                    return 1
+                }),
+            )
+        }
+
+        Koka.run(program, { [Trace.TracerOpt.field]: tracer })
+
+        expect(steps).toEqual(['start outer', 'start inner', 'end inner', 'end outer'])
+    })
+})
+
+describe('Trace exports', () => {
+    const createSpans = async () => {
+        const runtime = new TestRuntime()
+        const collector = createCollector()
+
+        function* program() {
+            return yield* Trace.span('loadPage', function* () {
+                yield* loadUser('1')
+                yield* loadUser('missing')
+            })
+        }
+
+        runtime.run(Result.wrap(Koka.try(program).handle({ [Trace.TracerOpt.field]: collector })))
+
+        await runtime.runAll()
+
+        return collector.spans
+    }
+
+    it('should format spans as a tree', async () => {
+        const [root] = await createSpans()
+
+        expect(Trace.format(root)).toBe(
+            ['loadPage 20ms error NotFoundErr', '  loadUser 10ms ok', '  loadUser 10ms error NotFoundErr'].join('\n'),
+        )
+    })
+
+    it('should export spans in OTLP JSON format', async () => {
+        const spans = await createSpans()
+        const otlp = Trace.toOtlp(spans, { serviceName: 'test' })
+
+        expect(otlp.resourceSpans[0].resource.attributes).toEqual([
+            { key: 'service.name', value: { stringValue: 'test' } },
+        ])
+
+        const [root, first, second] = otlp.resourceSpans[0].scopeSpans[0].spans
+
+        expect(root).toMatchObject({
+            traceId: '00000000000000000000000000000001',
+            spanId: '0000000000000002',
+            parentSpanId: undefined,
+            name: 'loadPage',
+            kind: 1,
+            startTimeUnixNano: '0',
+            endTimeUnixNano: '20000000',
+            status: { code: 2 },
+        })
+        expect(first).toMatchObject({
+            parentSpanId: root.spanId,
+            attributes: [
+                { key: 'user.id', value: { stringValue: '1' } },
+                { key: 'koka.status', value: { stringValue: 'ok' } },
+            ],
+            events: [{ timeUnixNano: '0', name: 'async', attributes: [] }],
+            status: { code: 1 },
+        })
+        expect(second).toMatchObject({
+            endTimeUnixNano: '20000000',
+            events: [
+                { timeUnixNano: '10000000', name: 'async', attributes: [] },
+                { timeUnixNano: '20000000', name: 'err NotFoundErr', attributes: [] },
+            ],
+            status: { code: 2, message: 'NotFoundErr' },
+        })
+    })
+})
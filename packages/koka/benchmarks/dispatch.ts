@@ -0,0 +1,206 @@
+import * as Koka from '../src/koka.ts'
+import * as Ctx from '../src/ctx.ts'
+import * as Err from '../src/err.ts'
+import * as Gen from '../src/gen.ts'
+import * as Result from '../src/result.ts'
+import * as Task from '../src/task.ts'
+
+/**
+ * measure the cost of effect dispatch in deeply nested handlers
+ * directly nested handlers are merged into one interpreter, so their cost is constant in the depth of nesting
+ * handlers separated by user generators are not merged, so their cost grows linearly with the depth of nesting,
+ * each of them is a single generator hop, as cheap as the inline handlers driving the generator by themselves
+ * run with `pnpm bench`, optionally filtered by the name of the cases, e.g. `pnpm bench wrap`
+ */
+
+class Num extends Ctx.Ctx('Num')<number> {}
+
+class FailErr extends Err.Err('FailErr')<number> {}
+
+type Eff = Num | FailErr
+
+const EFFECTS = 1000
+
+const DEPTHS = [1, 4, 16, 64]
+
+function* program() {
+    let sum = 0
+
+    for (let i = 0; i < EFFECTS; i++) {
+        sum += yield* Ctx.get(Num)
+    }
+
+    return sum
+}
+
+function* fail() {
+    yield* Ctx.get(Num)
+    throw yield* Err.throw(new FailErr(0))
+}
+
+/**
+ * a handler driving the generator by itself, as Koka.try did before handlers were run by frames
+ * it is the reference of the cost of a generator hop per handler
+ */
+function* handleInline(
+    gen: Generator<Koka.AnyEff, unknown>,
+    handlers: Record<string, unknown>,
+): Generator<Koka.AnyEff, unknown> {
+    try {
+        let result = gen.next()
+
+        while (!result.done) {
+            const effect = result.value
+
+            if (effect.type === 'err' && typeof handlers[effect.name] === 'function') {
+                return (handlers[effect.name] as (error: unknown) => unknown)(effect.error)
+            } else if (effect.type === 'ctx' && effect.name in handlers) {
+                result = gen.next(handlers[effect.name])
+            } else {
+                result = gen.next(yield effect)
+            }
+        }
+
+        return result.value
+    } finally {
+        Gen.cleanUpGen(gen)
+    }
+}
+
+type Case = {
+    name: string
+    run: (depth: number) => unknown
+}
+
+const cases: Case[] = [
+    {
+        name: 'Koka.try',
+        run: (depth) => {
+            let gen: Generator<Num, unknown> = program()
+
+            for (let i = 1; i < depth; i++) {
+                gen = Koka.try(gen).handle({})
+            }
+
+            return Koka.runSync(Koka.try(gen).handle({ Num: 1 }))
+        },
+    },
+    {
+        name: 'Result.wrap(Koka.try)',
+        run: (depth) => {
+            let gen: Generator<Num, unknown> = program()
+
+            for (let i = 1; i < depth; i++) {
+                gen = Result.wrap(Koka.try(gen).handle({}))
+            }
+
+            return Koka.runSync(Koka.try(gen).handle({ Num: 1 }))
+        },
+    },
+    {
+        // handlers separated by user generators are not merged, each of them is a generator hop, so it is O(depth)
+        // compare it with the inline handlers below, which have the same depth of generators
+        name: 'Koka.try in user generators',
+        run: (depth) => {
+            function* nest(level: number): Generator<Num, unknown> {
+                if (level === 0) {
+                    return yield* program()
+                }
+
+                return yield* Koka.try(nest(level - 1)).handle({})
+            }
+
+            return Koka.runSync(Koka.try(nest(depth - 1)).handle({ Num: 1 }))
+        },
+    },
+    {
+        name: 'inline handlers in user generators',
+        run: (depth) => {
+            function* nest(level: number): Generator<Koka.AnyEff, unknown> {
+                if (level === 0) {
+                    return yield* program()
+                }
+
+                return yield* handleInline(nest(level - 1), {})
+            }
+
+            return Koka.runSync(Koka.try(nest(depth - 1) as Generator<Num, unknown>).handle({ Num: 1 }))
+        },
+    },
+    {
+        name: 'Koka.try with err',
+        run: (depth) => {
+            let result: unknown
+
+            for (let i = 0; i < EFFECTS / 10; i++) {
+                let gen: Generator<Eff, unknown> = fail()
+
+                for (let j = 1; j < depth; j++) {
+                    gen = Koka.try(gen).handle({})
+                }
+
+                result = Koka.runSync(Koka.try(gen).handle({ Num: 1, FailErr: () => 0 }))
+            }
+
+            return result
+        },
+    },
+    {
+        name: 'Task.all(Result.wrap(Koka.try))',
+        run: (depth) => {
+            const task = () => {
+                let gen: Generator<Num, unknown> = program()
+
+                for (let i = 1; i < depth; i++) {
+                    gen = Result.wrap(Koka.try(gen).handle({}))
+                }
+
+                return gen
+            }
+
+            return Koka.runAsync(Koka.try(Task.all([task(), task()]) as Generator<Num, unknown>).handle({ Num: 1 }))
+        },
+    },
+]
+
+const measure = async (run: () => unknown) => {
+    // warm up the jit before measuring
+    for (let i = 0; i < 5; i++) {
+        await run()
+    }
+
+    let count = 0
+    const start = performance.now()
+
+    while (performance.now() - start < 500) {
+        await run()
+        count++
+    }
+
+    return (performance.now() - start) / count
+}
+
+const main = async (filter?: string) => {
+    for (const { name, run } of cases) {
+        if (filter && !name.includes(filter)) {
+            continue
+        }
+
+        const rows = []
+
+        for (const depth of DEPTHS) {
+            const ms = await measure(() => run(depth))
+
+            rows.push({
+                depth,
+                'ms/run': Number(ms.toFixed(3)),
+                'ns/effect': Math.round((ms * 1e6) / EFFECTS),
+            })
+        }
+
+        console.log(name)
+        console.table(rows)
+    }
+}
+
+main(process.argv[2])
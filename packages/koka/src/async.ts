@@ -1,3 +1,8 @@
+import * as Err from './err.ts'
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+import * as Opt from './opt.ts'
+
 export type MaybePromise<T> = T extends Promise<any> ? T : T | Promise<T>
 
 export type Async = {
@@ -20,3 +25,128 @@ function* awaitEffect<T>(value: T | Promise<T>): Generator<Async, T> {
 }
 
 export { awaitEffect as await }
+
+export class AbortSignalOpt extends Opt.Opt('koka/abort-signal-opt')<AbortSignal> {}
+
+const neverAbortedSignal = new AbortController().signal
+
+/**
+ * get the abort signal of current run
+ * returns a signal that never aborts when the runner does not support cancellation
+ */
+export function* signal(): Generator<AbortSignalOpt, AbortSignal> {
+    const signal = yield* Opt.get(AbortSignalOpt)
+
+    return signal ?? neverAbortedSignal
+}
+
+export class AbortError extends Error {
+    name = 'AbortError'
+    reason: unknown
+    constructor(reason?: unknown) {
+        super(reason instanceof Error ? reason.message : `The operation was aborted`)
+        Object.setPrototypeOf(this, new.target.prototype)
+        this.reason = reason
+    }
+}
+
+export type Clock = {
+    now(): number
+    setTimeout(callback: () => void, ms: number): unknown
+    clearTimeout(handle: unknown): void
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+/**
+ * provide a custom clock, e.g. a virtual clock in tests
+ */
+export class ClockOpt extends Opt.Opt('koka/clock-opt')<Clock> {}
+
+export function* getClock(): Generator<ClockOpt, Clock> {
+    const clock = yield* Opt.get(ClockOpt)
+
+    return clock ?? systemClock
+}
+
+export function* sleep(ms: number): Generator<Async | ClockOpt, void> {
+    const clock = yield* getClock()
+
+    let handle: unknown
+
+    try {
+        yield* awaitEffect(
+            new Promise<void>((resolve) => {
+                handle = clock.setTimeout(resolve, ms)
+            }),
+        )
+    } finally {
+        clock.clearTimeout(handle)
+    }
+}
+
+export function* delay<Yield, Return>(
+    input: Koka.Effector<Yield, Return>,
+    ms: number,
+): Generator<Yield | Async | ClockOpt, Return> {
+    yield* sleep(ms)
+
+    const gen = typeof input === 'function' ? input() : input
+
+    return yield* gen
+}
+
+export class TimeoutErr extends Err.Err('TimeoutErr')<{ ms: number }> {}
+
+const TimedOutSymbol = Symbol('timed-out')
+
+export function* timeout<Yield extends Koka.AnyEff, Return>(
+    input: Koka.Effector<Yield, Return>,
+    ms: number,
+): Generator<Yield | Async | ClockOpt | TimeoutErr, Return> {
+    const clock = yield* getClock()
+    const gen = typeof input === 'function' ? input() : input
+
+    let handle: unknown
+
+    const deadline = new Promise<typeof TimedOutSymbol>((resolve) => {
+        handle = clock.setTimeout(() => resolve(TimedOutSymbol), ms)
+    })
+
+    try {
+        let result = gen.next()
+
+        while (!result.done) {
+            const effect = result.value
+
+            if (effect.type === 'async') {
+                let value: unknown
+
+                try {
+                    value = yield* awaitEffect(Promise.race([effect.promise, deadline]))
+                } catch (error) {
+                    result = gen.throw(error)
+                    continue
+                }
+
+                if (value === TimedOutSymbol) {
+                    yield* Gen.finalize(gen)
+                    throw yield* Err.throw(new TimeoutErr({ ms }))
+                }
+
+                result = gen.next(value)
+            } else {
+                result = yield* Gen.forward(gen, effect)
+            }
+        }
+
+        return result.value
+    } finally {
+        clock.clearTimeout(handle)
+        yield* Gen.finalize(gen)
+    }
+}
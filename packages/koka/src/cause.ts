@@ -0,0 +1,229 @@
+import { AbortError } from './async.ts'
+import type * as Err from './err.ts'
+import * as Gen from './gen.ts'
+import type * as Result from './result.ts'
+
+/**
+ * an expected failure, i.e. an err effect
+ */
+export type Fail<E> = {
+    type: 'fail'
+    error: E
+}
+
+/**
+ * an unexpected failure, i.e. a thrown error
+ */
+export type Die = {
+    type: 'die'
+    defect: unknown
+}
+
+export type Interrupt = {
+    type: 'interrupt'
+    reason?: unknown
+}
+
+/**
+ * failures of concurrent tasks, including the tasks interrupted because of them
+ */
+export type Parallel<E> = {
+    type: 'parallel'
+    causes: Cause<E>[]
+}
+
+export type Cause<E> = Fail<E> | Die | Interrupt | Parallel<E>
+
+export type AnyCause = Cause<any>
+
+export type Failure<E> = {
+    type: 'failure'
+    cause: Cause<E>
+}
+
+export type Exit<T, E> = Result.Ok<T> | Failure<E>
+
+export const fail = <E>(error: E): Fail<E> => {
+    return {
+        type: 'fail',
+        error,
+    }
+}
+
+export const die = (defect: unknown): Die => {
+    return {
+        type: 'die',
+        defect,
+    }
+}
+
+export const interrupt = (reason?: unknown): Interrupt => {
+    return {
+        type: 'interrupt',
+        reason,
+    }
+}
+
+export const parallel = <E>(causes: Cause<E>[]): Cause<E> => {
+    if (causes.length === 1) {
+        return causes[0]
+    }
+
+    return {
+        type: 'parallel',
+        causes,
+    }
+}
+
+export const failure = <E>(cause: Cause<E>): Failure<E> => {
+    return {
+        type: 'failure',
+        cause,
+    }
+}
+
+/**
+ * the full causes of the errors and err effects propagated in a run, e.g. by Task.concurrent
+ */
+export type Annotations = WeakMap<object, AnyCause>
+
+/**
+ * the annotations of the run executing the current step, a run keeps its causes apart from the other runs
+ */
+let currentAnnotations: Annotations | undefined
+
+/**
+ * record the causes annotated in the steps of the generator
+ */
+export const record = <Yield, Return>(
+    gen: Generator<Yield, Return>,
+    annotations: Annotations,
+): Generator<Yield, Return> => {
+    return Gen.wrapSteps(gen, (step) => {
+        const previous = currentAnnotations
+        currentAnnotations = annotations
+
+        try {
+            return step()
+        } finally {
+            currentAnnotations = previous
+        }
+    })
+}
+
+/**
+ * attach the full cause to the error or err effect that is propagated, e.g. by Task.concurrent
+ * it is kept until it is read, and only when the generator is recorded
+ */
+export const annotate = (error: unknown, cause: AnyCause): void => {
+    if (currentAnnotations && typeof error === 'object' && error !== null) {
+        currentAnnotations.set(error, cause)
+    }
+}
+
+/**
+ * read and remove the cause annotated to the error, so a reused error instance does not report it again
+ */
+const takeAnnotation = (error: unknown, annotations: Annotations | undefined): AnyCause | undefined => {
+    if (!annotations || typeof error !== 'object' || error === null) {
+        return
+    }
+
+    const cause = annotations.get(error)
+
+    annotations.delete(error)
+
+    return cause
+}
+
+export const fromError = (error: unknown, annotations: Annotations | undefined = currentAnnotations): AnyCause => {
+    const cause = takeAnnotation(error, annotations)
+
+    if (cause) {
+        return cause
+    }
+
+    if (error instanceof AbortError) {
+        return interrupt(error.reason)
+    }
+
+    return die(error)
+}
+
+export const fromErr = <E extends Err.AnyErr>(
+    err: E,
+    annotations: Annotations | undefined = currentAnnotations,
+): Cause<E> => {
+    return (takeAnnotation(err, annotations) as Cause<E> | undefined) ?? fail(err)
+}
+
+/**
+ * flatten parallel causes into a list of fail, die and interrupt causes
+ */
+export const flatten = <E>(cause: Cause<E>): Array<Fail<E> | Die | Interrupt> => {
+    if (cause.type === 'parallel') {
+        return cause.causes.flatMap(flatten)
+    }
+
+    return [cause]
+}
+
+export const failures = <E>(cause: Cause<E>): E[] => {
+    return flatten(cause).flatMap((item) => (item.type === 'fail' ? [item.error] : []))
+}
+
+export const defects = <E>(cause: Cause<E>): unknown[] => {
+    return flatten(cause).flatMap((item) => (item.type === 'die' ? [item.defect] : []))
+}
+
+export const isInterrupted = <E>(cause: Cause<E>): boolean => {
+    return flatten(cause).some((item) => item.type === 'interrupt')
+}
+
+/**
+ * returns the first failure or defect, or an AbortError when the cause only contains interruptions
+ */
+export const squash = <E>(cause: Cause<E>): unknown => {
+    const items = flatten(cause)
+
+    for (const item of items) {
+        if (item.type === 'fail') {
+            return item.error
+        }
+
+        if (item.type === 'die') {
+            return item.defect
+        }
+    }
+
+    const interrupted = items.find((item) => item.type === 'interrupt')
+
+    return new AbortError(interrupted?.reason)
+}
+
+const formatError = (error: unknown): string => {
+    if (error instanceof Error) {
+        return `${error.name}: ${error.message}`
+    }
+
+    return JSON.stringify(error)
+}
+
+/**
+ * render the cause as a human readable string for error reporting
+ */
+export const pretty = <E>(cause: Cause<E>, indent = ''): string => {
+    if (cause.type === 'fail') {
+        return `${indent}Fail(${formatError(cause.error)})`
+    }
+
+    if (cause.type === 'die') {
+        return `${indent}Die(${formatError(cause.defect)})`
+    }
+
+    if (cause.type === 'interrupt') {
+        return `${indent}Interrupt`
+    }
+
+    return [`${indent}Parallel`, ...cause.causes.map((item) => pretty(item, `${indent}  `))].join('\n')
+}
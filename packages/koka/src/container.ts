@@ -0,0 +1,190 @@
+import * as Err from './err.ts'
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+import type { Service, ServiceClass, ServiceValue } from './layer.ts'
+
+/**
+ * - singleton: built once per container
+ * - scoped: built once per Container.provide() call
+ * - transient: built on each access
+ */
+export type Lifetime = 'singleton' | 'scoped' | 'transient'
+
+export type RegisterOptions = {
+    lifetime?: Lifetime
+}
+
+export type Registration = {
+    service: ServiceClass<Service>
+    factory: () => Koka.MaybeEffector<Koka.AnyEff, unknown>
+    lifetime: Lifetime
+}
+
+/**
+ * a container registers the factories of ctx/opt services
+ * the dependencies of a service are resolved from the container when its factory gets other services
+ */
+export type Container<Provided extends Service, Yield> = {
+    registrations: ReadonlyMap<string, Registration>
+    singletons: Map<string, unknown>
+    register<S extends Service, FactoryYield extends Koka.AnyEff = never>(
+        service: ServiceClass<S>,
+        factory: () => Koka.MaybeEffector<FactoryYield, ServiceValue<S>>,
+        options?: RegisterOptions,
+    ): Container<Provided | S, Yield | FactoryYield>
+}
+
+export type AnyContainer = Container<any, any>
+
+export type ExtractProvided<C> = C extends Container<infer Provided, any> ? Provided : never
+
+export type ExtractContainerEff<C> = C extends Container<infer Provided, infer Yield>
+    ? Exclude<Yield, { name: Provided['name'] }>
+    : never
+
+export class CircularDependencyError extends Error {
+    name = 'CircularDependencyError'
+    path: string[]
+
+    constructor(path: string[]) {
+        super(`Circular dependency: ${path.join(' -> ')}`)
+        this.path = path
+        Object.setPrototypeOf(this, CircularDependencyError.prototype)
+    }
+}
+
+const createContainer = <Provided extends Service, Yield>(
+    registrations: ReadonlyMap<string, Registration>,
+): Container<Provided, Yield> => {
+    return {
+        registrations,
+        singletons: new Map(),
+        register(service, factory, options) {
+            const next = new Map(registrations)
+
+            next.set(service.field, {
+                service,
+                factory,
+                lifetime: options?.lifetime ?? 'singleton',
+            })
+
+            return createContainer(next)
+        },
+    }
+}
+
+export const create = (): Container<never, never> => {
+    return createContainer(new Map())
+}
+
+type Resolver = (name: string) => Generator<Koka.AnyEff, unknown>
+
+/**
+ * drive the generator and answer the ctx/opt effects of registered services, other effects are propagated
+ */
+function* run<Return>(
+    gen: Generator<Koka.AnyEff, Return>,
+    registrations: ReadonlyMap<string, Registration>,
+    resolve: Resolver,
+): Generator<Koka.AnyEff, Return> {
+    const isRegistered = (effect: Koka.AnyEff): effect is Extract<Koka.AnyEff, { type: 'ctx' | 'opt' }> => {
+        return (effect.type === 'ctx' || effect.type === 'opt') && registrations.has(effect.name)
+    }
+
+    function* inject(effect: Extract<Koka.AnyEff, { type: 'ctx' | 'opt' }>) {
+        let value: unknown
+
+        try {
+            value = yield* resolve(effect.name)
+        } catch (error) {
+            return gen.throw(error)
+        }
+
+        const validated = Err.validate(effect, value)
+
+        if (validated.type === 'err') {
+            return yield* Err.rethrow(validated)
+        }
+
+        return gen.next(validated.value)
+    }
+
+    function* drive(result: IteratorResult<Koka.AnyEff, Return | undefined>) {
+        while (!result.done) {
+            const effect = result.value
+
+            if (isRegistered(effect)) {
+                result = yield* inject(effect)
+            } else {
+                result = yield* Gen.forward(gen, effect)
+            }
+        }
+
+        return result.value
+    }
+
+    try {
+        return (yield* drive(gen.next())) as Return
+    } finally {
+        // the services are still provided to the finally blocks of the generator
+        yield* drive((gen as Generator<Koka.AnyEff, Return | undefined>).return(undefined))
+    }
+}
+
+/**
+ * provide the services of the container to the effector
+ * services are built on first access, and their dependencies are resolved from the container
+ */
+export function* provide<Yield extends Koka.AnyEff, Return, Provided extends Service, ContainerYield>(
+    input: Koka.Effector<Yield, Return>,
+    container: Container<Provided, ContainerYield>,
+): Generator<
+    | Exclude<Yield | ContainerYield, { name: Provided['name'] }>
+    | Err.ValidationErrOf<Extract<Yield | ContainerYield, { name: Provided['name'] }>>,
+    Return
+> {
+    const gen = typeof input === 'function' ? input() : input
+    const { registrations, singletons } = container
+    const scoped = new Map<string, unknown>()
+    const resolving = [] as string[]
+
+    function* build(registration: Registration): Generator<Koka.AnyEff, unknown> {
+        const name = registration.service.field
+
+        if (resolving.includes(name)) {
+            throw new CircularDependencyError([...resolving.slice(resolving.indexOf(name)), name])
+        }
+
+        resolving.push(name)
+
+        try {
+            const value = registration.factory()
+
+            if (!Gen.isGen(value)) {
+                return value
+            }
+
+            return yield* run(value as Generator<Koka.AnyEff, unknown>, registrations, resolve)
+        } finally {
+            resolving.pop()
+        }
+    }
+
+    function* resolve(name: string): Generator<Koka.AnyEff, unknown> {
+        const registration = registrations.get(name)!
+
+        if (registration.lifetime === 'transient') {
+            return yield* build(registration)
+        }
+
+        const cache = registration.lifetime === 'singleton' ? singletons : scoped
+
+        if (!cache.has(name)) {
+            cache.set(name, yield* build(registration))
+        }
+
+        return cache.get(name)
+    }
+
+    return yield* run(gen as Generator<Koka.AnyEff, Return>, registrations, resolve) as Generator<any, Return>
+}
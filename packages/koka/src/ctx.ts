@@ -1,4 +1,8 @@
 import { EffSymbol } from './constant.ts'
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+import type { Opt } from './opt.ts'
+import type * as Schema from './schema.ts'
 
 export type Ctx<Name extends string, T> = {
     type: 'ctx'
@@ -8,9 +12,27 @@ export type Ctx<Name extends string, T> = {
 
 export type AnyCtx = Ctx<string, any>
 
-export function Ctx<const Name extends string>(name: Name) {
+/**
+ * the optional schema validates the value injected by Koka.try().handle() at runtime
+ */
+export function Ctx<const Name extends string>(
+    name: Name,
+): {
+    new <T>(): Ctx<Name, T>
+    field: Name
+}
+export function Ctx<const Name extends string, S extends Schema.AnySchema>(
+    name: Name,
+    schema: S,
+): {
+    new <T extends Schema.Infer<S> = Schema.Infer<S>>(): Ctx<Name, T> & Schema.Validated
+    field: Name
+    schema: S
+}
+export function Ctx<const Name extends string>(name: Name, schema?: Schema.AnySchema) {
     return class Eff<T> implements Ctx<Name, T> {
         static field: Name = name
+        static schema = schema
         type = 'ctx' as const
         name = name
         context = EffSymbol as EffSymbol | T
@@ -19,8 +41,47 @@ export function Ctx<const Name extends string>(name: Name) {
 
 export type CtxValue<C extends AnyCtx> = Exclude<C['context'], EffSymbol>
 
-export function* get<C extends AnyCtx>(ctx: C | (new () => C)): Generator<C, CtxValue<C>> {
-    const context = yield typeof ctx === 'function' ? new ctx() : ctx
+/**
+ * the default of a ctx class, e.g. `static default = () => consoleLogger`
+ * it may use other effects, and is evaluated on each access when the ctx effect is not handled
+ */
+export type CtxDefault<Yield, T> = {
+    default: () => Koka.MaybeEffector<Yield, T>
+}
+
+/**
+ * a ctx effect with a default is requested as an opt effect, so it is not required to be handled
+ */
+export type DefaultedCtx<C extends AnyCtx> = C extends Schema.Validated
+    ? Opt<C['name'], CtxValue<C>> & Schema.Validated
+    : Opt<C['name'], CtxValue<C>>
+
+export function get<C extends AnyCtx, Yield extends Koka.AnyEff = never>(
+    ctx: (new () => C) & CtxDefault<Yield, CtxValue<C>>,
+): Generator<DefaultedCtx<C> | Yield, CtxValue<C>>
+export function get<C extends AnyCtx>(ctx: C | (new () => C)): Generator<C, CtxValue<C>>
+export function* get<C extends AnyCtx>(ctx: C | (new () => C)): Generator<Koka.AnyEff, CtxValue<C>> {
+    const effect = typeof ctx === 'function' ? new ctx() : ctx
+    const getDefault = (effect.constructor as Partial<CtxDefault<Koka.AnyEff, CtxValue<C>>>).default
+
+    if (typeof getDefault !== 'function') {
+        const context = yield effect
+
+        return context as CtxValue<C>
+    }
+
+    // keep the prototype, so the schema attached to the ctx class still applies
+    const context = yield Object.assign(Object.create(Object.getPrototypeOf(effect)), effect, { type: 'opt' })
+
+    if (context !== undefined) {
+        return context as CtxValue<C>
+    }
+
+    const value = getDefault()
+
+    if (Gen.isGen(value)) {
+        return yield* value as Generator<Koka.AnyEff, CtxValue<C>>
+    }
 
-    return context as CtxValue<C>
+    return value as CtxValue<C>
 }
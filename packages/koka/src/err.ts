@@ -1,3 +1,8 @@
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+import type * as Result from './result.ts'
+import * as Schema from './schema.ts'
+
 export type Err<Name extends string, T> = {
     type: 'err'
     name: Name
@@ -10,22 +15,294 @@ export type ExtractErr<T> = T extends AnyErr ? T : never
 
 export type ExcludeErr<T> = T extends AnyErr ? never : T
 
-export function Err<const Name extends string>(name: Name) {
+/**
+ * the optional schema validates the payload at runtime when the err is constructed
+ * an invalid err is replaced by its ValidationErr when it is thrown by Err.throw or yielded to the handlers
+ */
+export function Err<const Name extends string>(
+    name: Name,
+): {
+    new <E = void>(error: E): Err<Name, E>
+    field: Name
+}
+export function Err<const Name extends string, S extends Schema.AnySchema>(
+    name: Name,
+    schema: S,
+): {
+    new <E extends Schema.Infer<S> = Schema.Infer<S>>(error: E): Err<Name, E> & Schema.Validated
+    field: Name
+    schema: S
+}
+export function Err<const Name extends string>(name: Name, schema?: Schema.AnySchema) {
     return class Eff<E = void> implements Err<Name, E> {
         static field: Name = name
+        static schema = schema
         type = 'err' as const
         name = name
         error: E
         constructor(error: E) {
             this.error = error
+
+            if (schema) {
+                const validated = validate(this, error)
+
+                if (validated.type === 'err') {
+                    defineHidden(this, 'invalid', validated)
+                }
+            }
         }
     }
 }
 
-function* throwError<E extends AnyErr>(err: E): Generator<E, never> {
+export type ErrOptions = {
+    /**
+     * capture the stack where err effects are thrown and the trace of handlers they pass through
+     * it is meant for development, since capturing stacks is expensive
+     */
+    captureStackTrace: boolean
+}
+
+const options: ErrOptions = {
+    captureStackTrace: false,
+}
+
+export const configure = (config: Partial<ErrOptions>): void => {
+    Object.assign(options, config)
+}
+
+/**
+ * whether the stacks and traces of err effects are captured, so the runtime skips tracing otherwise
+ */
+export const isCapturingStackTrace = (): boolean => {
+    return options.captureStackTrace
+}
+
+const defineHidden = (err: AnyErr, key: string, value: unknown) => {
+    if (Object.isExtensible(err)) {
+        // non-enumerable, so captured traces do not affect equality checks or serialization
+        Object.defineProperty(err, key, {
+            value,
+            enumerable: false,
+            configurable: true,
+            writable: true,
+        })
+    }
+}
+
+const captureStackTrace = (err: AnyErr) => {
+    const stackTraceLimit = Error.stackTraceLimit
+    // generator frames are usually deep in the stack, below the frames of the handlers
+    Error.stackTraceLimit = 50
+    const stack = new Error().stack?.split('\n').slice(3).join('\n')
+    Error.stackTraceLimit = stackTraceLimit
+
+    defineHidden(err, 'stack', stack && `${err.name}\n${stack}`)
+    defineHidden(err, 'trace', [])
+}
+
+/**
+ * record the handler the err effect passed through
+ */
+export const addTrace = (err: AnyErr, frame: string): void => {
+    const trace = (err as { trace?: string[] }).trace
+
+    if (options.captureStackTrace && Array.isArray(trace)) {
+        trace.push(frame)
+    }
+}
+
+/**
+ * get the stack where the err effect was thrown, only captured when captureStackTrace is enabled
+ */
+export const getStack = (err: AnyErr): string | undefined => {
+    return (err as { stack?: string }).stack
+}
+
+/**
+ * get the handlers the err effect passed through, from the innermost to the outermost
+ */
+export const getTrace = (err: AnyErr): string[] => {
+    return (err as { trace?: string[] }).trace ?? []
+}
+
+/**
+ * raised when the payload of an effect does not match the schema attached to its class
+ */
+export class ValidationErr extends Err('ValidationErr')<{
+    effect: string
+    issues: readonly Schema.Issue[]
+}> {}
+
+export type ValidationErrOf<E> = E extends Schema.Validated ? ValidationErr : never
+
+/**
+ * validate the payload of the effect against the schema attached to its class
+ * returns the payload itself when it is valid, so injected services keep their prototype,
+ * or a ValidationErr to throw instead of resuming with the payload
+ */
+export const validate = (effect: { name: string }, payload: unknown): Result.Ok<unknown> | ValidationErr => {
+    const schema = Schema.getSchema(effect)
+
+    if (!schema) {
+        return { type: 'ok', value: payload }
+    }
+
+    const result = Schema.validate(schema, payload)
+
+    if (result.issues) {
+        const err = new ValidationErr({ effect: effect.name, issues: result.issues })
+
+        if (options.captureStackTrace) {
+            captureStackTrace(err)
+        }
+
+        return err
+    }
+
+    return { type: 'ok', value: payload }
+}
+
+/**
+ * get the ValidationErr of an err constructed with an invalid payload
+ */
+export const getValidationErr = (err: AnyErr): ValidationErr | undefined => {
+    return (err as { invalid?: ValidationErr }).invalid
+}
+
+function* throwError<E extends AnyErr>(err: E): Generator<E | ValidationErrOf<E>, never> {
+    const invalid = getValidationErr(err)
+
+    if (invalid) {
+        return yield* rethrow(invalid as ValidationErrOf<E>)
+    }
+
+    if (options.captureStackTrace) {
+        captureStackTrace(err)
+    }
+
+    return yield* rethrow(err)
+}
+
+/**
+ * propagate an err effect that was already thrown, its stack and trace are kept
+ */
+export function* rethrow<E extends AnyErr>(err: E): Generator<E, never> {
     yield err
     /* istanbul ignore next */
     throw new Error(`Unexpected resumption of error effect [${err.name}]`)
 }
 
 export { throwError as throw }
+
+export type ErrPayload<E> = E extends Err<string, infer T> ? T : never
+
+type ExtractErrByName<Yield, Name extends string> = Extract<Yield, { type: 'err'; name: Name }>
+
+type ExcludeErrByName<Yield, Name extends string> = Exclude<Yield, { type: 'err'; name: Name }>
+
+function* getValue<Yield, T>(value: Koka.MaybeEffector<Yield, T>): Generator<Yield, T> {
+    if (Gen.isGen(value)) {
+        return yield* value as Generator<Yield, T>
+    }
+
+    return value as T
+}
+
+/**
+ * recover from the err effects matched by the predicate
+ * unlike Koka.try().handle(), the failed generator is cleaned up before the computation goes on with the recovery
+ */
+function* recover<Return>(
+    input: Koka.Effector<Koka.AnyEff, Return>,
+    match: (err: AnyErr) => boolean,
+    recovery: (err: AnyErr) => Generator<Koka.AnyEff, unknown>,
+): Generator<Koka.AnyEff, unknown> {
+    const gen = typeof input === 'function' ? input() : input
+
+    try {
+        let result = gen.next()
+
+        while (!result.done) {
+            const effect = result.value
+
+            if (effect.type === 'err' && match(effect)) {
+                yield* Gen.finalize(gen)
+                return yield* recovery(effect)
+            }
+
+            result = yield* Gen.forward(gen, effect)
+        }
+
+        return result.value
+    } finally {
+        yield* Gen.finalize(gen)
+    }
+}
+
+export function* catchTag<
+    Yield extends Koka.AnyEff,
+    Return,
+    const Name extends ExtractErr<Yield>['name'],
+    HandlerYield extends Koka.AnyEff = never,
+    HandlerReturn = Return,
+>(
+    input: Koka.Effector<Yield, Return>,
+    name: Name,
+    handler: (error: ErrPayload<ExtractErrByName<Yield, Name>>) => Koka.MaybeEffector<HandlerYield, HandlerReturn>,
+): Generator<ExcludeErrByName<Yield, Name> | HandlerYield, Return | HandlerReturn> {
+    return (yield* recover(
+        input,
+        (err) => err.name === name,
+        (err) => getValue(handler(err.error)),
+    ) as Generator<any, unknown>) as Return | HandlerReturn
+}
+
+export function* catchAll<
+    Yield extends Koka.AnyEff,
+    Return,
+    HandlerYield extends Koka.AnyEff = never,
+    HandlerReturn = Return,
+>(
+    input: Koka.Effector<Yield, Return>,
+    handler: (err: ExtractErr<Yield>) => Koka.MaybeEffector<HandlerYield, HandlerReturn>,
+): Generator<ExcludeErr<Yield> | HandlerYield, Return | HandlerReturn> {
+    return (yield* recover(
+        input,
+        () => true,
+        (err) => getValue(handler(err as ExtractErr<Yield>)),
+    ) as Generator<any, unknown>) as Return | HandlerReturn
+}
+
+/**
+ * transform the err effect with the given name into another err effect
+ */
+export function* mapError<
+    Yield extends Koka.AnyEff,
+    Return,
+    const Name extends ExtractErr<Yield>['name'],
+    MappedErr extends AnyErr,
+>(
+    input: Koka.Effector<Yield, Return>,
+    name: Name,
+    mapper: (error: ErrPayload<ExtractErrByName<Yield, Name>>) => MappedErr,
+): Generator<ExcludeErrByName<Yield, Name> | MappedErr | ValidationErrOf<MappedErr>, Return> {
+    return (yield* recover(
+        input,
+        (err) => err.name === name,
+        (err) => throwError(mapper(err.error)),
+    ) as Generator<any, unknown>) as Return
+}
+
+/**
+ * run the fallback when the effector throws any err effect
+ */
+export function* orElse<Yield extends Koka.AnyEff, Return, FallbackYield extends Koka.AnyEff, FallbackReturn>(
+    input: Koka.Effector<Yield, Return>,
+    fallback: Koka.Effector<FallbackYield, FallbackReturn>,
+): Generator<ExcludeErr<Yield> | FallbackYield, Return | FallbackReturn> {
+    return (yield* recover(
+        input,
+        () => true,
+        () => (typeof fallback === 'function' ? fallback() : fallback),
+    ) as Generator<any, unknown>) as Return | FallbackReturn
+}
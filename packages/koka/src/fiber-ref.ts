@@ -0,0 +1,104 @@
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+import * as Opt from './opt.ts'
+
+/**
+ * a reference whose value is local to the running task
+ * child tasks of Task.concurrent and forked fibers inherit a copy of the values, so their updates do not leak to the parent
+ */
+export type FiberRef<T> = {
+    readonly name: string
+    readonly initial: T
+}
+
+export type AnyFiberRef = FiberRef<any>
+
+export type FiberRefs = Map<AnyFiberRef, unknown>
+
+/**
+ * the values of fiber refs in the running task, provided by the runners and by Task.concurrent for each task
+ */
+export class FiberRefsOpt extends Opt.Opt('koka/fiber-refs-opt')<FiberRefs> {}
+
+export const make = <T>(name: string, initial: T): FiberRef<T> => {
+    return {
+        name,
+        initial,
+    }
+}
+
+function* getRefs(ref: AnyFiberRef): Generator<FiberRefsOpt, FiberRefs> {
+    const refs = yield* Opt.get(FiberRefsOpt)
+
+    if (!refs) {
+        throw new Error(`FiberRef [${ref.name}] is not supported by the runner`)
+    }
+
+    return refs
+}
+
+export function* get<T>(ref: FiberRef<T>): Generator<FiberRefsOpt, T> {
+    const refs = yield* Opt.get(FiberRefsOpt)
+
+    if (!refs?.has(ref)) {
+        return ref.initial
+    }
+
+    return refs.get(ref) as T
+}
+
+export function* set<T>(ref: FiberRef<T>, value: T): Generator<FiberRefsOpt, void> {
+    const refs = yield* getRefs(ref)
+
+    refs.set(ref, value)
+}
+
+export function* update<T>(ref: FiberRef<T>, updater: (value: T) => T): Generator<FiberRefsOpt, T> {
+    const value = updater(yield* get(ref))
+
+    yield* set(ref, value)
+
+    return value
+}
+
+/**
+ * copy the values of fiber refs for a child task
+ */
+export const fork = (refs: FiberRefs | undefined): FiberRefs => {
+    return new Map(refs)
+}
+
+/**
+ * run the effector with the value of the fiber ref
+ * the effector runs with a copy of the values, so its updates are discarded when it is done
+ */
+export function* locally<Yield, Return, T>(
+    ref: FiberRef<T>,
+    value: T,
+    input: Koka.Effector<Yield, Return>,
+): Generator<Yield | FiberRefsOpt, Return> {
+    const refs = fork(yield* Opt.get(FiberRefsOpt))
+    const gen = typeof input === 'function' ? input() : input
+
+    refs.set(ref, value)
+
+    function* drive(result: IteratorResult<Yield, Return | undefined>) {
+        while (!result.done) {
+            const effect = result.value as Koka.AnyEff
+
+            if (effect.type === 'opt' && effect.name === FiberRefsOpt.field) {
+                result = gen.next(refs)
+            } else {
+                result = yield* Gen.forward(gen as Generator<Yield, Return | undefined>, result.value)
+            }
+        }
+
+        return result.value as Return
+    }
+
+    try {
+        return yield* drive(gen.next())
+    } finally {
+        yield* drive((gen as Generator<Yield, Return | undefined>).return(undefined))
+    }
+}
@@ -0,0 +1,120 @@
+import * as Async from './async.ts'
+import * as Cause from './cause.ts'
+import * as Err from './err.ts'
+import * as FiberRef from './fiber-ref.ts'
+import * as Koka from './koka.ts'
+import * as Opt from './opt.ts'
+import * as Result from './result.ts'
+
+/**
+ * a handle of an effector running in the background
+ */
+export type Fiber<T, E> = {
+    readonly id: number
+    /**
+     * resolves with the exit of the fiber when it is done
+     */
+    readonly promise: Promise<Cause.Exit<T, E>>
+    readonly controller: AbortController
+    /**
+     * the exit of the fiber, undefined while it is running
+     */
+    exit?: Cause.Exit<T, E>
+}
+
+export type AnyFiber = Fiber<any, any>
+
+let fiberId = 0
+
+/**
+ * start running the effector in the background, it keeps running after the forking effector is done
+ * the fiber uses the clock and a copy of the fiber refs of the forking effector
+ * and it is interrupted when the run forking it is aborted
+ */
+export function* fork<Yield extends Async.Async | Opt.AnyOpt | Err.AnyErr, T>(
+    input: Koka.Effector<Yield, T>,
+): Generator<Async.ClockOpt | Async.AbortSignalOpt | FiberRef.FiberRefsOpt, Fiber<T, Err.ExtractErr<Yield>>> {
+    const clock = yield* Async.getClock()
+    const refs = yield* Opt.get(FiberRef.FiberRefsOpt)
+    // runners without cancellation have no signal, and the fiber is only interrupted by its own controller
+    const signal = yield* Opt.get(Async.AbortSignalOpt)
+    const controller = new AbortController()
+
+    const onAbort = () => {
+        controller.abort(signal?.reason)
+    }
+
+    // the listener is removed when the fiber is interrupted or done, so a long-lived signal does not hold the fibers
+    const removeListener = () => {
+        signal?.removeEventListener('abort', onAbort)
+    }
+
+    if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true })
+        controller.signal.addEventListener('abort', removeListener, { once: true })
+    }
+
+    const program = Koka.try(input as Koka.Effector<Async.Async | Opt.AnyOpt | Err.AnyErr, T>).handle({
+        [Async.ClockOpt.field]: clock,
+        [FiberRef.FiberRefsOpt.field]: FiberRef.fork(refs),
+    })
+
+    const fiber: Fiber<T, Err.ExtractErr<Yield>> = {
+        id: ++fiberId,
+        controller,
+        promise: Result.runAsyncCause(program as Koka.Effector<Async.Async | Opt.AnyOpt | Err.ExtractErr<Yield>, T>, {
+            signal: controller.signal,
+        }).then((exit) => {
+            fiber.exit = exit
+            removeListener()
+            return exit
+        }),
+    }
+
+    return fiber
+}
+
+/**
+ * wait for the fiber to be done, and get its exit
+ */
+function* awaitFiber<T, E>(fiber: Fiber<T, E>): Generator<Async.Async, Cause.Exit<T, E>> {
+    return yield* Async.await(fiber.promise)
+}
+
+export { awaitFiber as await }
+
+/**
+ * wait for the fiber to be done, and get its value
+ * the err effect of the fiber is rethrown, thrown errors are thrown, and interruptions are thrown as AbortError
+ */
+export function* join<T, E extends Err.AnyErr>(fiber: Fiber<T, E>): Generator<Async.Async | E, T> {
+    const exit = yield* awaitFiber(fiber)
+
+    if (exit.type === 'ok') {
+        return exit.value
+    }
+
+    const error = Cause.squash(exit.cause)
+
+    if (Cause.failures(exit.cause).includes(error as E)) {
+        throw yield* Err.rethrow(error as E)
+    }
+
+    throw error
+}
+
+/**
+ * get the exit of the fiber without waiting, undefined while it is running
+ */
+export function* poll<T, E>(fiber: Fiber<T, E>): Generator<never, Cause.Exit<T, E> | undefined> {
+    return fiber.exit
+}
+
+/**
+ * abort the fiber, and wait for its finally blocks to be done
+ */
+export function* interrupt<T, E>(fiber: Fiber<T, E>, reason?: unknown): Generator<Async.Async, Cause.Exit<T, E>> {
+    fiber.controller.abort(reason)
+
+    return yield* awaitFiber(fiber)
+}
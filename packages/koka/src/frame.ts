@@ -0,0 +1,587 @@
+import { addTrace, getValidationErr, isCapturingStackTrace, validate } from './err.ts'
+import * as Gen from './gen.ts'
+import type { AnyEff, Effector } from './koka.ts'
+import { type Op, type OpHandler, type Resumed, ResumedSymbol } from './op.ts'
+import { force, isLazy } from './opt.ts'
+
+/**
+ * the handlers of Koka.try().handle(), or the err catching of Result.wrap()
+ */
+export type FrameLayer =
+    | {
+          type: 'handle'
+          handlers: Record<string, unknown>
+          provider: Provider
+          label: string
+      }
+    | {
+          type: 'wrap'
+      }
+
+type Frame = {
+    input: Effector<AnyEff, unknown>
+    layer: FrameLayer
+    started: boolean
+}
+
+const FrameSymbol = Symbol('frame')
+
+type FrameGen = Generator<AnyEff, unknown> & {
+    [FrameSymbol]?: Frame
+}
+
+export type Provider = (name: string) => Generator<AnyEff, unknown>
+
+/**
+ * get the values of handlers, lazy values are built on first access and memoized in the scope of the handlers
+ */
+export const createProvider = (handlers: Record<string, unknown>): Provider => {
+    const memo = new Map<string, unknown>()
+
+    return function* (name) {
+        const value = handlers[name]
+
+        if (!isLazy(value)) {
+            return value
+        }
+
+        if (!memo.has(name)) {
+            memo.set(name, yield* force(value))
+        }
+
+        return memo.get(name)
+    }
+}
+
+/**
+ * run the effector in a layer of handlers
+ * frames directly nested in each other, e.g. Result.wrap(Koka.try(gen).handle(handlers)), are merged into one interpreter,
+ * so the effects are dispatched once to the handling layer instead of hopping through a generator per layer
+ * frames separated by other generators are not merged, since the generators between them may intercept the effects,
+ * but each of them drives its generator by itself, so an effect passing through takes a single generator hop per frame
+ */
+export const frame = (input: Effector<AnyEff, unknown>, layer: FrameLayer): Generator<AnyEff, unknown> => {
+    const current: Frame = {
+        input,
+        layer,
+        started: false,
+    }
+
+    const gen: FrameGen = run(current)
+
+    gen[FrameSymbol] = current
+
+    return gen
+}
+
+/**
+ * abort the layers inside the target layer, which returns the value
+ */
+class Unwind {
+    layer: number
+    value: unknown
+
+    constructor(layer: number, value: unknown) {
+        this.layer = layer
+        this.value = value
+    }
+}
+
+type Interpreter = {
+    /**
+     * from the innermost to the outermost
+     */
+    layers: FrameLayer[]
+    /**
+     * the indexes of layers with a handler of the name
+     */
+    index: Map<string, number[]>
+    /**
+     * the indexes of Result.wrap layers
+     */
+    wraps: number[]
+    /**
+     * the layers before it are finalizing their generators, they only answer ctx and opt effects
+     */
+    finalized: number
+    /**
+     * the ValidationErr is dispatched from the layer which injected the invalid value
+     */
+    validating?: WeakMap<AnyEff, number>
+    /**
+     * the effect left by pump, and the index of the layer handling it, or -1 to forward it to the outer handlers
+     */
+    effect?: AnyEff
+    layer: number
+}
+
+const createInterpreter = (layers: FrameLayer[]): Interpreter => {
+    const interpreter: Interpreter = {
+        layers,
+        index: new Map(),
+        wraps: [],
+        finalized: 0,
+        layer: -1,
+    }
+
+    for (let i = 0; i < layers.length; i++) {
+        const layer = layers[i]
+
+        if (layer.type === 'wrap') {
+            interpreter.wraps.push(i)
+            continue
+        }
+
+        for (const name of Object.keys(layer.handlers)) {
+            const indexes = interpreter.index.get(name)
+
+            if (indexes) {
+                indexes.push(i)
+            } else {
+                interpreter.index.set(name, [i])
+            }
+        }
+    }
+
+    return interpreter
+}
+
+const canHandle = (layer: FrameLayer, effect: AnyEff, finalizing: boolean): boolean => {
+    if (layer.type === 'wrap') {
+        return !finalizing && effect.type === 'err'
+    }
+
+    const handler = layer.handlers[effect.name!]
+
+    if (effect.type === 'ctx') {
+        return effect.name in layer.handlers
+    }
+
+    if (effect.type === 'opt') {
+        return handler !== undefined
+    }
+
+    return !finalizing && (effect.type === 'err' || effect.type === 'op') && typeof handler === 'function'
+}
+
+/**
+ * get the index of the innermost layer handling the effect, or -1 to forward it to the outer handlers
+ */
+const find = (interpreter: Interpreter, effect: AnyEff, from: number): number => {
+    const { layers, finalized } = interpreter
+    const candidates = effect.name === undefined ? undefined : interpreter.index.get(effect.name)
+
+    let found = -1
+
+    if (candidates) {
+        for (const i of candidates) {
+            if (i >= from && canHandle(layers[i], effect, i < finalized)) {
+                found = i
+                break
+            }
+        }
+    }
+
+    if (effect.type === 'err') {
+        const wrap = interpreter.wraps.find((i) => i >= from && i >= finalized)
+
+        if (wrap !== undefined && (found === -1 || wrap < found)) {
+            found = wrap
+        }
+    }
+
+    return found
+}
+
+const unwind = (interpreter: Interpreter, layer: number, value: unknown): Unwind => {
+    interpreter.finalized = layer + 1
+    return new Unwind(layer, value)
+}
+
+const trace = (interpreter: Interpreter, effect: AnyEff & { type: 'err' }, from: number, i: number) => {
+    const { layers } = interpreter
+    const end = i === -1 ? layers.length - 1 : i
+
+    for (let j = from; j <= end; j++) {
+        const layer = layers[j]
+        addTrace(effect, layer.type === 'handle' ? layer.label : 'Result.wrap')
+    }
+}
+
+/**
+ * resume the generator with the injected value, or go on with a ValidationErr as if the generator threw it
+ */
+const inject = (
+    interpreter: Interpreter,
+    gen: Generator<AnyEff, unknown>,
+    effect: AnyEff & { type: 'ctx' | 'opt' },
+    value: unknown,
+    i: number,
+): IteratorResult<AnyEff, unknown> => {
+    const validated = validate(effect, value)
+
+    if (validated.type === 'err') {
+        interpreter.validating ??= new WeakMap()
+        interpreter.validating.set(validated, i)
+
+        return {
+            done: false,
+            value: validated,
+        }
+    }
+
+    return gen.next(validated.value)
+}
+
+/**
+ * handle the effect by the layer i, the effects of its handler are dispatched to the layers outside of it
+ */
+function* step(
+    interpreter: Interpreter,
+    gen: Generator<AnyEff, unknown>,
+    effect: AnyEff,
+    i: number,
+): Generator<AnyEff, IteratorResult<AnyEff, unknown> | Unwind> {
+    const layer = interpreter.layers[i]
+
+    if (layer.type === 'wrap') {
+        return unwind(interpreter, i, effect)
+    }
+
+    const handler = layer.handlers[effect.name!]
+
+    if (effect.type === 'err') {
+        return unwind(interpreter, i, (handler as (error: unknown) => unknown)(effect.error))
+    }
+
+    if (effect.type === 'op') {
+        const opResult = yield* delegate(interpreter, handleOp(effect, handler as OpHandler<unknown, unknown>), i + 1)
+
+        if (opResult instanceof Unwind) {
+            return opResult
+        }
+
+        if (opResult.type === 'aborted') {
+            return unwind(interpreter, i, opResult.value)
+        }
+
+        return gen.next(opResult.reply)
+    }
+
+    let value: unknown
+
+    try {
+        value = yield* delegate(interpreter, layer.provider(effect.name!), i + 1)
+    } catch (error) {
+        // errors of building lazy values are thrown into the generator
+        return gen.throw(error)
+    }
+
+    if (value instanceof Unwind) {
+        return value
+    }
+
+    return inject(interpreter, gen, effect as AnyEff & { type: 'ctx' | 'opt' }, value, i)
+}
+
+/**
+ * resume the generator with the plain values of the handling layers, until it is done or its effect has to be forwarded
+ * to the outer handlers or handled by a step, the effect and the index of the handling layer are left in the interpreter
+ */
+const pump = (
+    interpreter: Interpreter,
+    gen: Generator<AnyEff, unknown>,
+    from: number,
+    result: IteratorResult<AnyEff, unknown>,
+): IteratorResult<AnyEff, unknown> => {
+    while (!result.done) {
+        // an err constructed with an invalid payload is dispatched as its ValidationErr, even when yielded directly
+        const effect = result.value.type === 'err' ? getValidationErr(result.value) ?? result.value : result.value
+        const start = effect.type === 'err' ? interpreter.validating?.get(effect) ?? from : from
+        const i = find(interpreter, effect, start)
+
+        if (effect.type === 'err' && isCapturingStackTrace()) {
+            trace(interpreter, effect, start, i)
+        }
+
+        // plain values are injected without driving the provider
+        if (i !== -1 && (effect.type === 'ctx' || effect.type === 'opt')) {
+            const layer = interpreter.layers[i]
+
+            if (layer.type === 'handle' && !isLazy(layer.handlers[effect.name])) {
+                result = inject(interpreter, gen, effect, layer.handlers[effect.name], i)
+                continue
+            }
+        }
+
+        interpreter.effect = effect
+        interpreter.layer = i
+        break
+    }
+
+    return result
+}
+
+/**
+ * drive the generator until it is done, or an effect is handled by aborting the layers inside of the handling layer
+ */
+function* drive(
+    interpreter: Interpreter,
+    gen: Generator<AnyEff, unknown>,
+    from: number,
+    result: IteratorResult<AnyEff, unknown>,
+): Generator<AnyEff, unknown> {
+    result = pump(interpreter, gen, from, result)
+
+    while (!result.done) {
+        const effect = interpreter.effect!
+        const i = interpreter.layer
+
+        if (i === -1) {
+            // the same as Gen.forward, inlined to save a generator for each effect passing through
+            let value: unknown
+
+            try {
+                value = yield effect
+            } catch (error) {
+                result = pump(interpreter, gen, from, gen.throw(error))
+                continue
+            }
+
+            result = pump(interpreter, gen, from, gen.next(value))
+            continue
+        }
+
+        const next = yield* step(interpreter, gen, effect, i)
+
+        if (next instanceof Unwind) {
+            return next
+        }
+
+        result = pump(interpreter, gen, from, next)
+    }
+
+    return result.value
+}
+
+/**
+ * return the generator early, until its finally blocks are done without aborting the layers again
+ */
+function* finish(
+    interpreter: Interpreter,
+    gen: Generator<AnyEff, unknown>,
+    from: number,
+    unwinding: Unwind,
+): Generator<AnyEff, Unwind> {
+    while (true) {
+        const value = yield* drive(interpreter, gen, from, gen.return(undefined))
+
+        if (!(value instanceof Unwind)) {
+            return unwinding
+        }
+
+        unwinding = value
+    }
+}
+
+/**
+ * drive the generator of a handler, whose effects are dispatched from the layer outside of the handler
+ */
+function* delegate<T>(
+    interpreter: Interpreter,
+    gen: Generator<AnyEff, T>,
+    from: number,
+): Generator<AnyEff, T | Unwind> {
+    let value: unknown
+    let done = false
+
+    try {
+        value = yield* drive(interpreter, gen, from, gen.next())
+        done = true
+    } finally {
+        if (!done) {
+            yield* drive(interpreter, gen, from, gen.return(undefined as T))
+        }
+    }
+
+    if (value instanceof Unwind) {
+        return yield* finish(interpreter, gen, from, value)
+    }
+
+    return value as T
+}
+
+/**
+ * merge the frames directly nested in the current frame, the innermost generator is driven with their layers
+ */
+const merge = (current: Frame): [Generator<AnyEff, unknown>, Interpreter] => {
+    const layers = [current.layer]
+
+    let frame: Frame | undefined = current
+    let gen: FrameGen
+
+    do {
+        frame.started = true
+        gen = typeof frame.input === 'function' ? frame.input() : frame.input
+        frame = gen[FrameSymbol]
+
+        if (frame && !frame.started) {
+            layers.push(frame.layer)
+        } else {
+            frame = undefined
+        }
+    } while (frame)
+
+    // from the innermost to the outermost
+    return [gen, createInterpreter(layers.reverse())]
+}
+
+/**
+ * get the value returned by the target layer of the unwinding, or by the innermost generator,
+ * the layers of Result.wrap outside of it wrap the value as ok
+ */
+const settle = (interpreter: Interpreter, value: unknown): unknown => {
+    const { layers } = interpreter
+
+    let returned = -1
+
+    if (value instanceof Unwind) {
+        returned = value.layer
+        value = value.value
+    }
+
+    for (let i = returned + 1; i < layers.length; i++) {
+        if (layers[i].type === 'wrap') {
+            value = {
+                type: 'ok',
+                value,
+            }
+        }
+    }
+
+    return value
+}
+
+/**
+ * drive the innermost generator of the merged frames with their layers
+ */
+function* run(current: Frame): Generator<AnyEff, unknown> {
+    const [gen, interpreter] = merge(current)
+
+    let value: unknown
+    let done = false
+
+    try {
+        // the same as drive, inlined so the frame is a single generator
+        let result = gen.next()
+
+        while (!result.done) {
+            let effect = result.value
+
+            // effects without a handler in the layers are forwarded without dispatching
+            if (effect.type === 'err' || interpreter.index.has(effect.name!)) {
+                result = pump(interpreter, gen, 0, result)
+
+                if (result.done) {
+                    break
+                }
+
+                effect = interpreter.effect!
+            } else {
+                interpreter.layer = -1
+            }
+
+            const i = interpreter.layer
+
+            if (i === -1) {
+                let sent: unknown
+
+                try {
+                    sent = yield effect
+                } catch (error) {
+                    result = gen.throw(error)
+                    continue
+                }
+
+                result = gen.next(sent)
+                continue
+            }
+
+            const next = yield* step(interpreter, gen, effect, i)
+
+            if (next instanceof Unwind) {
+                // ctx and opt effects yielded by the finally blocks are still handled by the finalizing layers
+                value = yield* finish(interpreter, gen, 0, next)
+                break
+            }
+
+            result = next
+        }
+
+        if (result.done) {
+            value = result.value
+        }
+
+        done = true
+    } finally {
+        if (!done) {
+            interpreter.finalized = interpreter.layers.length
+            yield* drive(interpreter, gen, 0, gen.return(undefined))
+        }
+    }
+
+    return settle(interpreter, value)
+}
+
+type OpResumed = {
+    type: 'resumed'
+    reply: unknown
+}
+
+type OpAborted = {
+    type: 'aborted'
+    value: unknown
+}
+
+function* handleOp(
+    op: Op<string, unknown, unknown>,
+    handler: OpHandler<unknown, unknown>,
+): Generator<any, OpResumed | OpAborted> {
+    let status = 'pending' as 'pending' | 'resumed' | 'completed'
+    let reply: unknown
+
+    const resume = (value: unknown): Resumed => {
+        if (status === 'resumed') {
+            throw new Error(`Operation [${op.name}] can only be resumed once`)
+        }
+
+        if (status === 'completed') {
+            throw new Error(`Operation [${op.name}] can not be resumed after its handler completed`)
+        }
+
+        status = 'resumed'
+        reply = value
+
+        return ResumedSymbol
+    }
+
+    let value = handler(op.payload, resume)
+
+    if (Gen.isGen(value)) {
+        value = yield* value as Generator<AnyEff>
+    }
+
+    if (status === 'resumed') {
+        return {
+            type: 'resumed',
+            reply,
+        }
+    }
+
+    status = 'completed'
+
+    return {
+        type: 'aborted',
+        value,
+    }
+}
@@ -12,6 +12,74 @@ export const cleanUpGen = <Yield, Return, Next>(gen: Generator<Yield, Return, Ne
     }
 }
 
+/**
+ * yield the effect to the outer handlers and resume the generator with the outcome, including thrown errors
+ */
+export function* forward<Yield, Return>(
+    gen: Generator<Yield, Return>,
+    effect: Yield,
+): Generator<Yield, IteratorResult<Yield, Return>> {
+    let value: unknown
+
+    try {
+        value = yield effect
+    } catch (error) {
+        return gen.throw(error)
+    }
+
+    return gen.next(value)
+}
+
+/**
+ * return the generator early and forward the effects yielded by its finally blocks until it is done
+ */
+export function* finalize<Yield, Return>(gen: Generator<Yield, Return>): Generator<Yield, void> {
+    let result = (gen as Generator<Yield, Return | undefined>).return(undefined)
+
+    while (!result.done) {
+        result = yield* forward(gen as Generator<Yield, Return | undefined>, result.value)
+    }
+}
+
+/**
+ * run every step of the generator inside the given function, including the steps of its finally blocks
+ * e.g. to set a state read synchronously by the code of the generator without yielding effects
+ */
+export function* wrapSteps<Yield, Return>(
+    gen: Generator<Yield, Return>,
+    runStep: <T>(step: () => T) => T,
+): Generator<Yield, Return> {
+    function* drive(result: IteratorResult<Yield, Return | undefined>): Generator<Yield, Return | undefined> {
+        while (!result.done) {
+            let value: unknown
+
+            try {
+                value = yield result.value
+            } catch (error) {
+                result = runStep(() => gen.throw(error))
+                continue
+            }
+
+            result = runStep(() => gen.next(value))
+        }
+
+        return result.value
+    }
+
+    let done = false
+
+    try {
+        const value = yield* drive(runStep(() => gen.next()))
+        done = true
+        return value as Return
+    } finally {
+        // the generator is returned early, or it threw and returning it is a no-op
+        if (!done) {
+            yield* drive(runStep(() => (gen as Generator<Yield, Return | undefined>).return(undefined)))
+        }
+    }
+}
+
 export function* of<T>(value: T) {
     return value
 }
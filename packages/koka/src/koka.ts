@@ -1,12 +1,15 @@
-import type { Async, MaybePromise } from './async.ts'
+import { type Async, type MaybePromise, AbortError, AbortSignalOpt } from './async.ts'
 import type { Ctx } from './ctx.ts'
-import type { Err } from './err.ts'
-import * as Gen from './gen.ts'
-import type { AnyOpt, Opt } from './opt.ts'
+import type { Err, ValidationErr } from './err.ts'
+import { type FiberRefs, FiberRefsOpt } from './fiber-ref.ts'
+import { createProvider, frame } from './frame.ts'
+import type { Op, OpHandler, Resumed } from './op.ts'
+import type { AnyOpt, Lazy, Opt } from './opt.ts'
+import type { Validated } from './schema.ts'
 
 export * from './constant.ts'
 
-export type Eff<T> = Err<string, T> | Ctx<string, T> | Opt<string, T> | Async
+export type Eff<T> = Err<string, T> | Ctx<string, T> | Opt<string, T> | Op<string, T, T> | Async
 
 export type AnyEff = Eff<any>
 
@@ -15,113 +18,250 @@ type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends (
 type ToHandler<Effect> = Effect extends Err<infer Name, infer U>
     ? Record<Name, (error: U) => unknown>
     : Effect extends Ctx<infer Name, infer U>
-    ? Record<Name, U>
+    ? Record<Name, U | Lazy<any, U>>
     : Effect extends Opt<infer Name, infer U>
-    ? Record<Name, U | undefined>
+    ? Record<Name, U | Lazy<any, U> | undefined>
+    : Effect extends Op<infer Name, infer P, infer R>
+    ? Record<Name, OpHandler<P, R>>
     : never
 
 export type EffectHandlers<Effect> = UnionToIntersection<ToHandler<Effect>>
 
-type ExtractErrorHandlerReturn<Handlers, Eff> = Eff extends Err<infer Name, infer U>
+type ExtractOpHandlerReturn<T> = Exclude<T extends Generator<any, infer R> ? R : T, Resumed>
+
+type ExtractHandlerReturn<Handlers, Eff> = Eff extends Err<infer Name, infer U>
     ? Name extends keyof Handlers
         ? Handlers[Name] extends (error: U) => infer R
             ? R
             : never
         : never
+    : Eff extends Op<infer Name, any, any>
+    ? Name extends keyof Handlers
+        ? Handlers[Name] extends (...args: any[]) => infer R
+            ? ExtractOpHandlerReturn<R>
+            : never
+        : never
+    : never
+
+type IsAny<T> = 0 extends 1 & T ? true : false
+
+type ExtractHandlerEff<Handlers, Eff> = Eff extends Op<infer Name, any, any>
+    ? Name extends keyof Handlers
+        ? IsAny<Handlers[Name]> extends true
+            ? never
+            : Handlers[Name] extends (...args: any[]) => Generator<infer Y, any>
+            ? Y
+            : never
+        : never
+    : Eff extends { type: 'ctx' | 'opt'; name: infer Name }
+    ? Name extends keyof Handlers
+        ? IsAny<Handlers[Name]> extends true
+            ? never
+            : Handlers[Name] extends Lazy<infer Y, any>
+            ? Y
+            : never
+        : never
+    : never
+
+/**
+ * ctx and opt effects with a schema raise ValidationErr when the injected value is invalid,
+ * err effects with a schema raise it when they are dispatched with an invalid payload
+ */
+type ExtractValidationErr<Eff, Names = string> = Eff extends Validated
+    ? Eff extends { type: 'err' }
+        ? ValidationErr
+        : Eff extends { type: 'ctx' | 'opt'; name: infer Name }
+        ? Name extends Names
+            ? ValidationErr
+            : never
+        : never
     : never
 
 export type Effector<Yield, Return> = Generator<Yield, Return> | (() => Generator<Yield, Return>)
 
-function tryEffect<Yield extends AnyEff, Return>(input: Effector<Yield, Return>) {
-    return {
-        *handle<Handlers extends Partial<EffectHandlers<Yield>>>(
-            handlers: Handlers,
-        ): Generator<Exclude<Yield, { name: keyof Handlers }>, Return | ExtractErrorHandlerReturn<Handlers, Yield>> {
-            const gen = typeof input === 'function' ? input() : input
+/**
+ * a plain value or a generator returning the value
+ */
+export type MaybeEffector<Yield, Return> = Return | Generator<Yield, Return>
 
-            try {
-                let result = gen.next()
+export type PartialHandlers<Yield> = Partial<EffectHandlers<Yield | ExtractValidationErr<Yield>>>
 
-                while (!result.done) {
-                    const effect = result.value
+/**
+ * the effects remaining after handling the effects of Yield with the handlers
+ */
+export type HandledEff<Yield, H> =
+    | Exclude<Yield | ExtractValidationErr<Yield, keyof H>, { name: keyof H }>
+    | ExtractHandlerEff<H, Yield>
 
-                    if (effect.type === 'err') {
-                        const errorHandler = handlers[effect.name as keyof Handlers]
+export type HandledReturn<Yield, H, Return> = Return | ExtractHandlerReturn<H, Yield | ExtractValidationErr<Yield>>
 
-                        if (typeof errorHandler === 'function') {
-                            return errorHandler(effect.error)
-                        } else {
-                            result = gen.next(yield effect as any)
-                        }
-                    } else if (effect.type === 'ctx') {
-                        if (effect.name in handlers) {
-                            result = gen.next(handlers[effect.name as keyof Handlers])
-                        } else {
-                            result = gen.next(yield effect as any)
-                        }
-                    } else if (effect.type === 'opt') {
-                        const optValue = handlers[effect.name as keyof Handlers]
+type UnhandledName<Eff, Allowed> = Eff extends Allowed
+    ? never
+    : Eff extends { name: infer Name extends string }
+    ? Name
+    : Eff extends { type: infer Type extends string }
+    ? Type
+    : never
 
-                        if (optValue !== undefined) {
-                            result = gen.next(optValue)
-                        } else {
-                            result = gen.next(yield effect as any)
-                        }
-                    } else {
-                        result = gen.next(yield effect as any)
-                    }
-                }
-
-                return result.value
-            } finally {
-                Gen.cleanUpGen(gen)
-            }
+/**
+ * a compile-time error listing the names of the effects which are not handled
+ */
+type CheckUnhandled<Eff, Allowed> = [UnhandledName<Eff, Allowed>] extends [never]
+    ? unknown
+    : { 'unhandled effects': UnhandledName<Eff, Allowed> }
+
+function tryEffect<Yield extends AnyEff, Return>(input: Effector<Yield, Return>) {
+    return {
+        handle<H extends PartialHandlers<Yield>>(
+            handlers: H,
+        ): Generator<HandledEff<Yield, H>, HandledReturn<Yield, H, Return>> {
+            return frame(input, {
+                type: 'handle',
+                handlers: handlers as Record<string, unknown>,
+                provider: createProvider(handlers as Record<string, unknown>),
+                label: `Koka.try(${typeof input === 'function' ? input.name || 'anonymous' : 'anonymous'})`,
+            }) as Generator<HandledEff<Yield, H>, HandledReturn<Yield, H, Return>>
         },
     }
 }
 
 export { tryEffect as try }
 
+export class UnhandledEffectError extends Error {
+    name = 'UnhandledEffectError'
+    effect: unknown
+    constructor(effect: unknown) {
+        super(`Unhandled effect: ${JSON.stringify(effect, null, 2)}`)
+        Object.setPrototypeOf(this, new.target.prototype)
+        this.effect = effect
+    }
+}
+
 export function runSync<Return>(input: Effector<AnyOpt, Return>): Return {
     const gen = typeof input === 'function' ? input() : input
+    const refs: FiberRefs = new Map()
+
     let result = gen.next()
 
     while (!result.done) {
         const effect = result.value
 
         if (effect.type === 'opt') {
-            result = gen.next()
+            result = gen.next(effect.name === FiberRefsOpt.field ? refs : undefined)
         } else {
-            throw new Error(`Unhandled effect: ${JSON.stringify(effect, null, 2)}`)
+            throw new UnhandledEffectError(effect)
         }
     }
 
     return result.value
 }
 
-export function runAsync<Return>(input: Effector<Async | AnyOpt, Return>): Promise<Return> {
+/**
+ * run the effector synchronously with the handlers of its remaining effects, except opt effects
+ */
+export function run<Yield extends AnyEff, Return, H extends PartialHandlers<Yield>>(
+    input: Effector<Yield, Return>,
+    handlers: H & CheckUnhandled<HandledEff<Yield, H>, AnyOpt>,
+): HandledReturn<Yield, H, Return> {
+    return runSync(tryEffect(input).handle(handlers) as Generator<AnyOpt, HandledReturn<Yield, H, Return>>)
+}
+
+export type RunAsyncOptions = {
+    signal?: AbortSignal
+}
+
+/**
+ * options only hold a signal, so an object with other keys is taken as the handlers
+ */
+const isRunAsyncOptions = (value: object): value is RunAsyncOptions => {
+    return Object.keys(value).every((key) => key === 'signal')
+}
+
+export function runAsync<Return>(input: Effector<Async | AnyOpt, Return>, options?: RunAsyncOptions): Promise<Return>
+/**
+ * run the effector asynchronously with the handlers of its remaining effects, except async and opt effects
+ */
+export function runAsync<Yield extends AnyEff, Return, H extends PartialHandlers<Yield>>(
+    input: Effector<Yield, Return>,
+    handlers: H & CheckUnhandled<HandledEff<Yield, H>, Async | AnyOpt>,
+    options?: RunAsyncOptions,
+): Promise<HandledReturn<Yield, H, Return>>
+export function runAsync<Return>(
+    input: Effector<AnyEff, Return>,
+    handlers?: RunAsyncOptions | PartialHandlers<AnyEff>,
+    options?: RunAsyncOptions,
+): Promise<Return> {
+    if (handlers && (options || !isRunAsyncOptions(handlers))) {
+        return runAsyncImpl(tryEffect(input).handle(handlers) as Generator<Async | AnyOpt, Return>, options)
+    }
+
+    return runAsyncImpl(input as Effector<Async | AnyOpt, Return>, handlers as RunAsyncOptions | undefined)
+}
+
+function runAsyncImpl<Return>(input: Effector<Async | AnyOpt, Return>, options?: RunAsyncOptions): Promise<Return> {
+    const signal = options?.signal
+
+    if (signal?.aborted) {
+        return Promise.reject(new AbortError(signal.reason))
+    }
+
     const gen = typeof input === 'function' ? input() : input
+    const refs: FiberRefs = new Map()
+
+    let aborting = false
+
+    const getRuntimeOpt = (name: string) => {
+        if (name === AbortSignalOpt.field) {
+            return signal
+        }
+
+        if (name === FiberRefsOpt.field) {
+            return refs
+        }
+    }
+
+    const checkAborted = (result: IteratorResult<Async | AnyOpt, Return>) => {
+        if (!result.done && !aborting && signal?.aborted) {
+            // drive the generator to completion, effects yielded by its finally blocks are still handled
+            aborting = true
+            return gen.return(undefined as Return)
+        }
+
+        return result
+    }
 
     const process = (result: IteratorResult<Async | AnyOpt, Return>): MaybePromise<Return> => {
+        result = checkAborted(result)
+
         while (!result.done) {
             const effect = result.value
 
             if (effect.type === 'async') {
-                return effect.promise.then(
+                const current = result
+
+                return raceAbort(effect.promise, aborting ? undefined : signal).then(
                     (value) => {
                         return process(gen.next(value))
                     },
                     (error) => {
+                        if (error === AbortedSymbol) {
+                            return process(current)
+                        }
+
                         return process(gen.throw(error))
                     },
                 ) as MaybePromise<Return>
             } else if (effect.type === 'opt') {
-                result = gen.next()
+                result = checkAborted(gen.next(getRuntimeOpt(effect.name)))
             } else {
-                throw new Error(`Unhandled effect: ${JSON.stringify(effect, null, 2)}`)
+                throw new UnhandledEffectError(effect)
             }
         }
 
+        if (aborting) {
+            throw new AbortError(signal?.reason)
+        }
+
         return result.value as MaybePromise<Return>
     }
 
@@ -130,6 +270,33 @@ export function runAsync<Return>(input: Effector<Async | AnyOpt, Return>): Promi
     })
 }
 
+const AbortedSymbol = Symbol('aborted')
+
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> => {
+    if (!signal) {
+        return promise
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            reject(AbortedSymbol)
+        }
+
+        signal.addEventListener('abort', onAbort, { once: true })
+
+        promise.then(
+            (value) => {
+                signal.removeEventListener('abort', onAbort)
+                resolve(value)
+            },
+            (error) => {
+                signal.removeEventListener('abort', onAbort)
+                reject(error)
+            },
+        )
+    })
+}
+
 export type ExtractEffFromObject<Gens extends object> = {
     [K in keyof Gens]: Gens[K] extends Effector<infer E, any> ? E : never
 }[keyof Gens]
@@ -0,0 +1,123 @@
+import type { EffSymbol } from './constant.ts'
+import type * as Ctx from './ctx.ts'
+import type * as Err from './err.ts'
+import * as Koka from './koka.ts'
+import type * as Opt from './opt.ts'
+
+export type Service = Ctx.AnyCtx | Opt.AnyOpt
+
+export type ServiceClass<S extends Service> = {
+    new (): S
+    field: S['name']
+}
+
+export type ServiceValue<S extends Service> = Exclude<S['context'], EffSymbol>
+
+/**
+ * a layer builds the values of a set of ctx/opt effects, building may use any other effect
+ */
+export type Layer<Provided extends Service, Yield> = {
+    services: ServiceClass<Provided>[]
+    build: () => Generator<Yield, Record<string, unknown>>
+}
+
+export type AnyLayer = Layer<any, any>
+
+export type ExtractProvided<L> = L extends Layer<infer Provided, any> ? Provided : never
+
+export type ExtractLayerEff<L> = L extends Layer<any, infer Yield> ? Yield : never
+
+export function succeed<S extends Service>(service: ServiceClass<S>, value: ServiceValue<S>): Layer<S, never> {
+    return {
+        services: [service],
+        *build() {
+            return {
+                [service.field]: value,
+            }
+        },
+    }
+}
+
+export function effect<S extends Service, Yield>(
+    service: ServiceClass<S>,
+    factory: () => Generator<Yield, ServiceValue<S>>,
+): Layer<S, Yield> {
+    return {
+        services: [service],
+        *build() {
+            const value = yield* factory()
+
+            return {
+                [service.field]: value,
+            }
+        },
+    }
+}
+
+/**
+ * combine independent layers, they are built in order
+ */
+export function merge<const Layers extends AnyLayer[]>(
+    ...layers: Layers
+): Layer<ExtractProvided<Layers[number]>, ExtractLayerEff<Layers[number]>> {
+    return {
+        services: layers.flatMap((layer) => layer.services),
+        *build() {
+            let values = {} as Record<string, unknown>
+
+            for (const layer of layers) {
+                values = {
+                    ...values,
+                    ...(yield* layer.build()),
+                }
+            }
+
+            return values
+        },
+    }
+}
+
+/**
+ * build the dependency first and provide its values to the layer, the result provides the services of both
+ */
+export function provideMerge<
+    Provided extends Service,
+    Yield extends Koka.AnyEff,
+    DepProvided extends Service,
+    DepYield,
+>(
+    layer: Layer<Provided, Yield>,
+    dependency: Layer<DepProvided, DepYield>,
+): Layer<Provided | DepProvided, Exclude<Yield, { name: DepProvided['name'] }> | DepYield> {
+    return {
+        services: [...dependency.services, ...layer.services],
+        *build() {
+            const dependencyValues = yield* dependency.build()
+            const values: Record<string, unknown> = yield* Koka.try(layer.build()).handle(
+                dependencyValues as {},
+            ) as Generator<any, Record<string, unknown>>
+
+            return {
+                ...dependencyValues,
+                ...values,
+            }
+        },
+    }
+}
+
+/**
+ * build the layer and handle the effects it provides
+ */
+export function* provide<Yield extends Koka.AnyEff, Return, Provided extends Service, LayerYield>(
+    input: Koka.Effector<Yield, Return>,
+    layer: Layer<Provided, LayerYield>,
+): Generator<
+    | Exclude<Yield, { name: Provided['name'] }>
+    | Err.ValidationErrOf<Extract<Yield, { name: Provided['name'] }>>
+    | LayerYield,
+    Return
+> {
+    const values = yield* layer.build()
+
+    return yield* Koka.try(input).handle(values as {}) as Generator<any, Return>
+}
@@ -0,0 +1,45 @@
+import { EffSymbol } from './constant.ts'
+
+export type Op<Name extends string, P, R> = {
+    type: 'op'
+    name: Name
+    payload: P
+    reply: EffSymbol | R
+}
+
+export type AnyOp = Op<string, any, any>
+
+export function Op<const Name extends string>(name: Name) {
+    return class Eff<P = void, R = void> implements Op<Name, P, R> {
+        static field: Name = name
+        type = 'op' as const
+        name = name
+        payload: P
+        reply = EffSymbol as EffSymbol | R
+        constructor(payload: P) {
+            this.payload = payload
+        }
+    }
+}
+
+export type OpPayload<O extends AnyOp> = O['payload']
+
+export type OpReply<O extends AnyOp> = Exclude<O['reply'], EffSymbol>
+
+export const ResumedSymbol = Symbol('resumed')
+
+export type Resumed = typeof ResumedSymbol
+
+/**
+ * resume the suspended computation with a reply
+ * the handler should return its result to continue, otherwise the computation is aborted
+ */
+export type Resume<R> = (reply: R) => Resumed
+
+export type OpHandler<P, R> = (payload: P, resume: Resume<R>) => unknown
+
+export function* perform<O extends AnyOp>(op: O): Generator<O, OpReply<O>> {
+    const reply = yield op
+
+    return reply as OpReply<O>
+}
@@ -1,4 +1,7 @@
 import { EffSymbol } from './constant.ts'
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+import type * as Schema from './schema.ts'
 
 export type Opt<Name extends string, T> = {
     type: 'opt'
@@ -8,9 +11,27 @@ export type Opt<Name extends string, T> = {
 
 export type AnyOpt = Opt<string, any>
 
-export function Opt<const Name extends string>(name: Name) {
+/**
+ * the optional schema validates the value injected by Koka.try().handle() at runtime
+ */
+export function Opt<const Name extends string>(
+    name: Name,
+): {
+    new <T>(): Opt<Name, T>
+    field: Name
+}
+export function Opt<const Name extends string, S extends Schema.AnySchema>(
+    name: Name,
+    schema: S,
+): {
+    new <T extends Schema.Infer<S> = Schema.Infer<S>>(): Opt<Name, T> & Schema.Validated
+    field: Name
+    schema: S
+}
+export function Opt<const Name extends string>(name: Name, schema?: Schema.AnySchema) {
     return class Eff<T> implements Opt<Name, T> {
         static field: Name = name
+        static schema = schema
         type = 'opt' as const
         name = name
         context = EffSymbol as EffSymbol | T
@@ -26,3 +47,40 @@ export function* get<O extends AnyOpt>(
 
     return optValue as OptValue<O>
 }
+
+export const LazySymbol = Symbol('lazy')
+
+/**
+ * a value built on first access, it is memoized in the scope of the Koka.try().handle() providing it
+ */
+export type Lazy<Yield, T> = {
+    [LazySymbol]: () => Koka.MaybeEffector<Yield, T>
+}
+
+export type AnyLazy = Lazy<any, any>
+
+/**
+ * provide the value of a ctx/opt effect lazily, e.g. expensive services are only built when used
+ * the factory may use other effects, they are propagated to the outer handlers
+ */
+export const lazy = <T, Yield extends Koka.AnyEff = never>(
+    factory: () => Koka.MaybeEffector<Yield, T>,
+): Lazy<Yield, T> => {
+    return {
+        [LazySymbol]: factory,
+    }
+}
+
+export const isLazy = (value: unknown): value is AnyLazy => {
+    return typeof value === 'object' && value !== null && LazySymbol in value
+}
+
+export function* force<Yield, T>(value: Lazy<Yield, T>): Generator<Yield, T> {
+    const result = value[LazySymbol]()
+
+    if (Gen.isGen(result)) {
+        return yield* result as Generator<Yield, T>
+    }
+
+    return result as T
+}
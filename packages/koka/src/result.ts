@@ -1,7 +1,8 @@
 import type * as Async from './async.ts'
-import type * as Err from './err.ts'
+import * as Cause from './cause.ts'
+import * as Err from './err.ts'
+import { frame } from './frame.ts'
 import type * as Opt from './opt.ts'
-import * as Gen from './gen.ts'
 import * as Koka from './koka.ts'
 
 export type Ok<T> = {
@@ -32,29 +33,10 @@ export const err = <Name extends string, T>(name: Name, error: T): Err.Err<Name,
 
 export type InferOkValue<T> = T extends Ok<infer U> ? U : never
 
-export function* wrap<Yield extends Koka.AnyEff, Return>(
+export function wrap<Yield extends Koka.AnyEff, Return>(
     gen: Generator<Yield, Return>,
 ): Generator<Err.ExcludeErr<Yield>, Ok<Return> | Err.ExtractErr<Yield>> {
-    try {
-        let result = gen.next()
-
-        while (!result.done) {
-            const effect = result.value
-
-            if (effect.type === 'err') {
-                return effect as Err.ExtractErr<Yield>
-            } else {
-                result = gen.next(yield effect as any)
-            }
-        }
-
-        return {
-            type: 'ok',
-            value: result.value,
-        }
-    } finally {
-        Gen.cleanUpGen(gen)
-    }
+    return frame(gen, { type: 'wrap' }) as Generator<Err.ExcludeErr<Yield>, Ok<Return> | Err.ExtractErr<Yield>>
 }
 
 /**
@@ -80,7 +62,32 @@ export function runSync<E extends Err.AnyErr, Return>(input: Koka.Effector<Opt.A
 
 export function runAsync<E extends Err.AnyErr, Return>(
     input: Koka.Effector<Async.Async | Opt.AnyOpt | E, Return>,
+    options?: Koka.RunAsyncOptions,
 ): Promise<Ok<Return> | E> {
     const gen = typeof input === 'function' ? input() : input
-    return Koka.runAsync(wrap(gen as any) as any)
+    return Koka.runAsync(wrap(gen as any) as any, options)
+}
+
+/**
+ * run the effector and resolve with its exit, the cause tells expected errs, defects and interruptions apart
+ * and contains every failure of concurrent tasks
+ */
+export async function runAsyncCause<E extends Err.AnyErr, Return>(
+    input: Koka.Effector<Async.Async | Opt.AnyOpt | E, Return>,
+    options?: Koka.RunAsyncOptions,
+): Promise<Cause.Exit<Return, E>> {
+    const gen = typeof input === 'function' ? input() : input
+    const annotations: Cause.Annotations = new WeakMap()
+
+    try {
+        const result = await runAsync(Cause.record(gen, annotations), options)
+
+        if (result.type === 'ok') {
+            return result as Ok<Return>
+        }
+
+        return Cause.failure(Cause.fromErr(result as E, annotations))
+    } catch (error) {
+        return Cause.failure(Cause.fromError(error, annotations))
+    }
 }
@@ -0,0 +1,123 @@
+import * as Async from './async.ts'
+import type * as Err from './err.ts'
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+
+/**
+ * returns the delay in milliseconds before the given retry attempt, starting from 1
+ */
+export type Backoff = (attempt: number) => number
+
+export const fixed = (ms: number): Backoff => {
+    return () => ms
+}
+
+export type ExponentialOptions = {
+    factor?: number
+    max?: number
+}
+
+export const exponential = (base: number, options?: ExponentialOptions): Backoff => {
+    const config = {
+        factor: 2,
+        max: Number.POSITIVE_INFINITY,
+        ...options,
+    }
+
+    return (attempt) => Math.min(base * Math.pow(config.factor, attempt - 1), config.max)
+}
+
+/**
+ * full jitter, pick a random delay between 0 and the delay of the given backoff
+ */
+export const jittered = (backoff: Backoff, random: () => number = Math.random): Backoff => {
+    return (attempt) => Math.round(backoff(attempt) * random())
+}
+
+export type RetryPolicy<Name extends string, E extends Err.AnyErr> = {
+    on: Name[]
+    maxAttempts?: number
+    backoff?: Backoff
+    while?: (err: E, attempt: number) => boolean
+}
+
+type AttemptDone<Return> = {
+    type: 'done'
+    value: Return
+}
+
+type AttemptFailed = {
+    type: 'failed'
+    err: Err.AnyErr
+}
+
+export function* retry<Yield extends Koka.AnyEff, Return, const Name extends Err.ExtractErr<Yield>['name']>(
+    input: () => Generator<Yield, Return>,
+    policy: RetryPolicy<Name, Extract<Err.ExtractErr<Yield>, { name: Name }>>,
+): Generator<Yield | Async.Async | Async.ClockOpt, Return> {
+    type RetryErr = Extract<Err.ExtractErr<Yield>, { name: Name }>
+
+    const maxAttempts = policy.maxAttempts ?? 3
+    const backoff = policy.backoff ?? fixed(0)
+    const retryWhile = policy.while ?? (() => true)
+
+    if (maxAttempts < 1) {
+        throw new Error(`maxAttempts must be greater than 0`)
+    }
+
+    const names = new Set<string>(policy.on)
+
+    const isRetryable = (err: Err.AnyErr): err is RetryErr => {
+        return names.has(err.name)
+    }
+
+    const shouldRetry = (err: Err.AnyErr, attempt: number) => {
+        return attempt < maxAttempts && isRetryable(err) && retryWhile(err, attempt)
+    }
+
+    function* runAttempt(attempt: number): Generator<Yield, AttemptDone<Return> | AttemptFailed> {
+        const gen = input()
+
+        try {
+            let result = gen.next()
+
+            while (!result.done) {
+                const effect = result.value
+
+                if (effect.type === 'err' && shouldRetry(effect, attempt)) {
+                    return {
+                        type: 'failed',
+                        err: effect,
+                    }
+                }
+
+                result = yield* Gen.forward(gen, effect)
+            }
+
+            return {
+                type: 'done',
+                value: result.value,
+            }
+        } finally {
+            yield* Gen.finalize(gen)
+        }
+    }
+
+    let attempt = 1
+
+    while (true) {
+        const result = yield* runAttempt(attempt)
+
+        if (result.type === 'done') {
+            return result.value
+        }
+
+        const ms = backoff(attempt)
+
+        if (ms > 0) {
+            yield* Async.sleep(ms)
+        }
+
+        attempt += 1
+    }
+}
@@ -0,0 +1,236 @@
+/**
+ * a schema compatible with the Standard Schema interface, e.g. zod, valibot and arktype schemas
+ * see https://standardschema.dev
+ */
+export type StandardSchema<Input = unknown, Output = Input> = {
+    readonly '~standard': {
+        readonly version: 1
+        readonly vendor: string
+        readonly validate: (value: unknown) => ValidationResult<Output> | Promise<ValidationResult<Output>>
+        readonly types?: {
+            readonly input: Input
+            readonly output: Output
+        }
+    }
+}
+
+export type AnySchema = StandardSchema<any, any>
+
+export type PathSegment = {
+    readonly key: PropertyKey
+}
+
+export type Issue = {
+    readonly message: string
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment>
+}
+
+export type ValidationResult<Output> =
+    | {
+          readonly value: Output
+          readonly issues?: undefined
+      }
+    | {
+          readonly issues: ReadonlyArray<Issue>
+      }
+
+export type Infer<S> = S extends StandardSchema<any, infer Output> ? Output : never
+
+/**
+ * type-only marker of effects whose payload is validated at runtime
+ */
+export type Validated = {
+    readonly '~validated': true
+}
+
+/**
+ * validate the value synchronously, since effects are resumed synchronously
+ */
+export const validate = <S extends AnySchema>(schema: S, value: unknown): ValidationResult<Infer<S>> => {
+    const result = schema['~standard'].validate(value)
+
+    if (result instanceof Promise) {
+        throw new TypeError(`Schema validation of effects must be synchronous`)
+    }
+
+    return result
+}
+
+/**
+ * get the schema attached to the class of the effect, if any
+ */
+export const getSchema = (effect: object): AnySchema | undefined => {
+    return (effect.constructor as { schema?: AnySchema } | undefined)?.schema
+}
+
+/**
+ * the built-in schemas are validated by the same check, so nested issues keep their full path
+ */
+const checks = new WeakMap<AnySchema, (value: unknown, path: PropertyKey[]) => ValidationResult<any>>()
+
+const schema = <T>(check: (value: unknown, path: PropertyKey[]) => ValidationResult<T>): StandardSchema<T> => {
+    const result: StandardSchema<T> = {
+        '~standard': {
+            version: 1,
+            vendor: 'koka',
+            validate: (value) => check(value, []),
+        },
+    }
+
+    checks.set(result, check)
+
+    return result
+}
+
+const check = <S extends AnySchema>(target: S, value: unknown, path: PropertyKey[]): ValidationResult<Infer<S>> => {
+    const builtin = checks.get(target)
+
+    if (builtin) {
+        return builtin(value, path)
+    }
+
+    const result = validate(target, value)
+
+    if (result.issues) {
+        return {
+            issues: result.issues.map((issue) => ({
+                ...issue,
+                path: [...path, ...(issue.path ?? [])],
+            })),
+        }
+    }
+
+    return result
+}
+
+const typeOf = (value: unknown): string => {
+    if (value === null) {
+        return 'null'
+    }
+
+    if (Array.isArray(value)) {
+        return 'array'
+    }
+
+    return typeof value
+}
+
+const primitive = <T>(type: string, is: (value: unknown) => value is T) => {
+    return schema<T>((value, path) => {
+        if (is(value)) {
+            return { value }
+        }
+
+        return {
+            issues: [{ message: `Expected ${type}, received ${typeOf(value)}`, path }],
+        }
+    })
+}
+
+export const string = () => primitive('string', (value): value is string => typeof value === 'string')
+
+export const number = () => primitive('number', (value): value is number => typeof value === 'number')
+
+export const boolean = () => primitive('boolean', (value): value is boolean => typeof value === 'boolean')
+
+export const literal = <const T extends string | number | boolean | null>(expected: T) => {
+    return schema<T>((value, path) => {
+        if (value === expected) {
+            return { value: value as T }
+        }
+
+        return {
+            issues: [{ message: `Expected ${JSON.stringify(expected)}, received ${JSON.stringify(value)}`, path }],
+        }
+    })
+}
+
+export const optional = <S extends AnySchema>(item: S) => {
+    return schema<Infer<S> | undefined>((value, path) => {
+        if (value === undefined) {
+            return { value }
+        }
+
+        return check(item, value, path)
+    })
+}
+
+export const array = <S extends AnySchema>(item: S) => {
+    return schema<Infer<S>[]>((value, path) => {
+        if (!Array.isArray(value)) {
+            return {
+                issues: [{ message: `Expected array, received ${typeOf(value)}`, path }],
+            }
+        }
+
+        const output = [] as Infer<S>[]
+        const issues = [] as Issue[]
+
+        value.forEach((element, index) => {
+            const result = check(item, element, [...path, index])
+
+            if (result.issues) {
+                issues.push(...result.issues)
+            } else {
+                output.push(result.value)
+            }
+        })
+
+        return issues.length > 0 ? { issues } : { value: output }
+    })
+}
+
+type ObjectOutput<Shape extends Record<string, AnySchema>> = {
+    [K in keyof Shape as undefined extends Infer<Shape[K]> ? never : K]: Infer<Shape[K]>
+} & {
+    [K in keyof Shape as undefined extends Infer<Shape[K]> ? K : never]?: Infer<Shape[K]>
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+/**
+ * validate the known properties of the object, unknown properties are stripped from the output
+ */
+export const object = <Shape extends Record<string, AnySchema>>(shape: Shape) => {
+    return schema<Simplify<ObjectOutput<Shape>>>((value, path) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            return {
+                issues: [{ message: `Expected object, received ${typeOf(value)}`, path }],
+            }
+        }
+
+        const output = {} as Record<string, unknown>
+        const issues = [] as Issue[]
+
+        for (const key of Object.keys(shape)) {
+            const result = check(shape[key], (value as Record<string, unknown>)[key], [...path, key])
+
+            if (result.issues) {
+                issues.push(...result.issues)
+            } else if (result.value !== undefined) {
+                output[key] = result.value
+            }
+        }
+
+        return issues.length > 0 ? { issues } : { value: output as Simplify<ObjectOutput<Shape>> }
+    })
+}
+
+/**
+ * format the path of the issue, e.g. `database.hosts[0]`
+ */
+export const formatPath = (issue: Issue): string => {
+    let result = ''
+
+    for (const segment of issue.path ?? []) {
+        const key = typeof segment === 'object' ? segment.key : segment
+
+        if (typeof key === 'number') {
+            result += `[${key}]`
+        } else {
+            result += result === '' ? String(key) : `.${String(key)}`
+        }
+    }
+
+    return result
+}
@@ -0,0 +1,192 @@
+import * as Ctx from './ctx.ts'
+import * as Err from './err.ts'
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+
+export type Finalizer = () => Generator<Koka.AnyEff, void>
+
+export type Scope = {
+    addFinalizer(finalizer: Finalizer): void
+}
+
+export class ScopeCtx extends Ctx.Ctx('koka/scope-ctx')<Scope> {}
+
+/**
+ * register a finalizer to the current scope, it runs when the scope is closed
+ */
+export function* addFinalizer<Yield extends Koka.AnyEff = never>(
+    finalizer: () => Koka.MaybeEffector<Yield, void>,
+): Generator<ScopeCtx | Yield, void> {
+    const scope = yield* Ctx.get(ScopeCtx)
+
+    scope.addFinalizer(function* () {
+        const result = finalizer()
+
+        if (Gen.isGen(result)) {
+            yield* result as Generator<Koka.AnyEff, void>
+        }
+    })
+}
+
+/**
+ * acquire a resource and release it when the current scope is closed
+ * the release may use any effect, e.g. awaiting a promise
+ */
+export function* acquireRelease<AcquireYield extends Koka.AnyEff, T, ReleaseYield extends Koka.AnyEff = never>(
+    acquire: Koka.Effector<AcquireYield, T>,
+    release: (resource: T) => Koka.MaybeEffector<ReleaseYield, void>,
+): Generator<AcquireYield | ReleaseYield | ScopeCtx, T> {
+    const resource = yield* typeof acquire === 'function' ? acquire() : acquire
+
+    yield* addFinalizer(() => release(resource))
+
+    return resource
+}
+
+/**
+ * run the effector in a new scope, finalizers run in reverse order of registration when
+ * - the effector returned or threw
+ * - the effector threw an err effect, before the err effect is propagated
+ * - the scope was cleaned up early, e.g. when losing a Task.race
+ */
+export function* scoped<Yield extends Koka.AnyEff, Return>(
+    input: Koka.Effector<Yield, Return>,
+): Generator<Exclude<Yield, ScopeCtx>, Return> {
+    const gen = typeof input === 'function' ? input() : input
+
+    return yield* runScope(gen) as Generator<Exclude<Yield, ScopeCtx>, Return>
+}
+
+/**
+ * a finalizer fails by throwing an error, or by throwing an err effect which is never resumed
+ */
+type FinalizerFailure =
+    | {
+          type: 'throw'
+          error: unknown
+      }
+    | {
+          type: 'err'
+          err: Err.AnyErr
+      }
+
+function* runFinalizer(finalizer: Finalizer): Generator<Koka.AnyEff, FinalizerFailure | undefined> {
+    const gen = finalizer()
+
+    try {
+        let result = gen.next()
+
+        while (!result.done) {
+            const effect = result.value
+
+            if (effect.type === 'err') {
+                yield* Gen.finalize(gen)
+
+                return {
+                    type: 'err',
+                    err: effect,
+                }
+            }
+
+            result = yield* Gen.forward(gen, effect)
+        }
+    } catch (error) {
+        return {
+            type: 'throw',
+            error,
+        }
+    }
+}
+
+/**
+ * propagate the first failure of the finalizers, the others are only run
+ */
+function* propagate(failures: FinalizerFailure[]): Generator<Koka.AnyEff, void> {
+    if (failures.length === 0) {
+        return
+    }
+
+    const failure = failures[0]
+
+    if (failure.type === 'err') {
+        yield* Err.rethrow(failure.err)
+    } else {
+        throw failure.error
+    }
+}
+
+function* runScope<Return>(gen: Generator<Koka.AnyEff, Return>): Generator<Koka.AnyEff, Return> {
+    const finalizers = [] as Finalizer[]
+    let closed = false
+
+    const scope: Scope = {
+        addFinalizer: (finalizer) => {
+            if (closed) {
+                throw new Error(`Can not add finalizer to a closed scope`)
+            }
+
+            finalizers.push(finalizer)
+        },
+    }
+
+    /**
+     * run all finalizers even if some of them failed, returns the failures of finalizers in the order they ran
+     */
+    function* close(): Generator<Koka.AnyEff, FinalizerFailure[]> {
+        closed = true
+
+        const failures = [] as FinalizerFailure[]
+
+        while (finalizers.length > 0) {
+            const failure = yield* runFinalizer(finalizers.pop()!)
+
+            if (failure) {
+                failures.push(failure)
+            }
+        }
+
+        return failures
+    }
+
+    let result: IteratorResult<Koka.AnyEff, Return> | undefined
+
+    try {
+        result = gen.next()
+
+        while (!result.done) {
+            const effect: Koka.AnyEff = result.value
+
+            if (effect.type === 'ctx' && effect.name === ScopeCtx.field) {
+                result = gen.next(scope)
+            } else if (effect.type === 'err') {
+                // err effects are never resumed, release the resources before propagating it
+                yield* Gen.finalize(gen)
+                yield* close()
+                yield* Err.rethrow(effect)
+            } else {
+                result = yield* Gen.forward(gen, effect)
+            }
+        }
+    } catch (error) {
+        if (!closed) {
+            yield* close()
+        }
+
+        throw error
+    } finally {
+        // the generator is returned early, e.g. when losing a Task.race, run the finalizers before it is done
+        if (!closed && !result?.done) {
+            yield* Gen.finalize(gen)
+
+            const failures = yield* close()
+
+            // returning early has no value or error to keep, so the failures of finalizers surface from here
+            yield* propagate(failures)
+        }
+    }
+
+    // the effector is done, and the finalizers run after its finally blocks
+    yield* propagate(yield* close())
+
+    return result.value
+}
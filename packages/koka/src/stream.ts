@@ -0,0 +1,182 @@
+import * as Async from './async.ts'
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+import * as Task from './task.ts'
+
+export type Emit<T> = {
+    type: 'emit'
+    name?: undefined
+    value: T
+}
+
+export type AnyEmit = Emit<any>
+
+/**
+ * a stream is a generator factory that emits values via emit effects
+ * the producer is suspended until the consumer handled the emitted value, so it never runs ahead of the consumer
+ */
+export type Stream<Yield, T> = () => Generator<Yield | Emit<T>, void>
+
+export type ExtractStreamEff<S> = S extends Stream<infer Yield, any> ? Yield : never
+
+export type ExtractStreamValue<S> = S extends Stream<any, infer T> ? T : never
+
+export function* emit<T>(value: T): Generator<Emit<T>, void> {
+    yield {
+        type: 'emit',
+        value,
+    }
+}
+
+function* getValue<Yield, T>(value: Koka.MaybeEffector<Yield, T>): Generator<Yield, T> {
+    if (Gen.isGen(value)) {
+        return yield* value as Generator<Yield, T>
+    }
+
+    return value as T
+}
+
+/**
+ * drive the stream and call the handler for every emitted value, stop when the handler returns false
+ */
+function* consume<Yield extends Koka.AnyEff, T, HandlerYield>(
+    stream: Stream<Yield, T>,
+    handler: (value: T) => Generator<HandlerYield, boolean>,
+): Generator<Yield | HandlerYield, void> {
+    const gen = stream()
+
+    try {
+        let result = gen.next()
+
+        while (!result.done) {
+            const effect = result.value
+
+            if (effect.type === 'emit') {
+                const shouldContinue = yield* handler(effect.value)
+
+                if (!shouldContinue) {
+                    return
+                }
+
+                result = gen.next()
+            } else {
+                result = yield* Gen.forward(gen as Generator<Yield, void>, effect as Yield)
+            }
+        }
+    } finally {
+        yield* Gen.finalize(gen as Generator<any, void>)
+    }
+}
+
+export function fromIterable<T>(iterable: Iterable<T>): Stream<never, T> {
+    return function* () {
+        for (const value of iterable) {
+            yield* emit(value)
+        }
+    }
+}
+
+export function fromAsyncIterable<T>(iterable: AsyncIterable<T>): Stream<Async.Async, T> {
+    return function* () {
+        const iterator = iterable[Symbol.asyncIterator]()
+        let done = false
+
+        try {
+            while (true) {
+                const result = yield* Async.await(iterator.next())
+
+                if (result.done) {
+                    done = true
+                    return
+                }
+
+                yield* emit(result.value)
+            }
+        } finally {
+            // wait for the iterator to be closed, so a rejection of closing is not left unhandled
+            if (!done && iterator.return) {
+                yield* Async.await(iterator.return())
+            }
+        }
+    }
+}
+
+export function map<Yield extends Koka.AnyEff, T, U, MapperYield extends Koka.AnyEff = never>(
+    stream: Stream<Yield, T>,
+    mapper: (value: T, index: number) => Koka.MaybeEffector<MapperYield, U>,
+): Stream<Yield | MapperYield, U> {
+    return function* () {
+        let index = 0
+
+        yield* consume(stream, function* (value) {
+            const mapped = yield* getValue(mapper(value, index++))
+            yield* emit(mapped)
+            return true
+        })
+    }
+}
+
+export function filter<Yield extends Koka.AnyEff, T, PredicateYield extends Koka.AnyEff = never>(
+    stream: Stream<Yield, T>,
+    predicate: (value: T, index: number) => Koka.MaybeEffector<PredicateYield, boolean>,
+): Stream<Yield | PredicateYield, T> {
+    return function* () {
+        let index = 0
+
+        yield* consume(stream, function* (value) {
+            if (yield* getValue(predicate(value, index++))) {
+                yield* emit(value)
+            }
+            return true
+        })
+    }
+}
+
+export function take<Yield extends Koka.AnyEff, T>(stream: Stream<Yield, T>, count: number): Stream<Yield, T> {
+    return function* () {
+        if (count <= 0) {
+            return
+        }
+
+        let taken = 0
+
+        yield* consume(stream, function* (value) {
+            yield* emit(value)
+            return ++taken < count
+        })
+    }
+}
+
+/**
+ * run the streams concurrently and emit their values as soon as they are produced
+ */
+export function merge<Streams extends Stream<Koka.AnyEff, unknown>[]>(
+    ...streams: Streams
+): Stream<ExtractStreamEff<Streams[number]> | Async.Async, ExtractStreamValue<Streams[number]>> {
+    return function* () {
+        yield* Task.all(streams as Stream<any, any>[]) as Generator<any, unknown>
+    }
+}
+
+export function* forEach<Yield extends Koka.AnyEff, T, CallbackYield extends Koka.AnyEff = never>(
+    stream: Stream<Yield, T>,
+    callback: (value: T, index: number) => Koka.MaybeEffector<CallbackYield, void>,
+): Generator<Yield | CallbackYield, void> {
+    let index = 0
+
+    yield* consume(stream, function* (value) {
+        yield* getValue(callback(value, index++))
+        return true
+    })
+}
+
+export function* collect<Yield extends Koka.AnyEff, T>(stream: Stream<Yield, T>): Generator<Yield, T[]> {
+    const values = [] as T[]
+
+    yield* consume(stream, function* (value) {
+        values.push(value)
+        return true
+    })
+
+    return values
+}
@@ -1,6 +1,10 @@
 import * as Async from './async.ts'
+import * as Cause from './cause.ts'
+import * as Err from './err.ts'
+import * as FiberRef from './fiber-ref.ts'
 import * as Gen from './gen.ts'
-import type * as Koka from './koka.ts'
+import * as Koka from './koka.ts'
+import * as Result from './result.ts'
 
 const withResolvers: <T>() => PromiseWithResolvers<T> =
     Promise.withResolvers?.bind(Promise) ??
@@ -73,7 +77,10 @@ function createStream<T>(options?: StreamOptions<T>) {
 
 export type TaskProducer<Yield, TaskReturn> = (index: number) => Koka.Effector<Yield, TaskReturn> | undefined
 
-export type TaskSource<Yield, TaskReturn> = TaskProducer<Yield, TaskReturn> | Array<Koka.Effector<Yield, TaskReturn>>
+export type TaskSource<Yield, TaskReturn> =
+    | TaskProducer<Yield, TaskReturn>
+    | Array<Koka.Effector<Yield, TaskReturn>>
+    | TaskQueue<Yield, TaskReturn>
 
 export type TaskResult<TaskReturn> = {
     index: number
@@ -86,31 +93,380 @@ export type TaskResultsHandler<TaskReturn, HandlerReturn> = (
     stream: TaskResultStream<TaskReturn>,
 ) => Promise<HandlerReturn>
 
-const createTaskConsumer = <Yield extends Koka.AnyEff, TaskReturn>(inputs: TaskSource<Yield, TaskReturn>) => {
+type TaskEntry<Yield, TaskReturn> = {
+    index: number
+    gen: Generator<Yield, TaskReturn>
+}
+
+/**
+ * a task not started yet, its generator is created when it is taken
+ */
+type TaskCandidate<Yield, TaskReturn> = {
+    index: number
+    task: Koka.Effector<Yield, TaskReturn>
+}
+
+type TaskPriority = (index: number) => number
+
+type TaskConsumer<Yield, TaskReturn> = {
+    next: () => TaskEntry<Yield, TaskReturn> | undefined
+    /**
+     * resolves when a task may be available, undefined when no more tasks will come
+     */
+    wait: () => Promise<void> | undefined
+}
+
+/**
+ * the max number of tasks pulled from a producer ahead of starting them, to compare their priorities
+ */
+const PRIORITY_LOOKAHEAD = 64
+
+const toEntry = <Yield, TaskReturn>(candidate: TaskCandidate<Yield, TaskReturn>): TaskEntry<Yield, TaskReturn> => {
+    const { index, task } = candidate
+
+    return {
+        index,
+        gen: typeof task === 'function' ? task() : task,
+    }
+}
+
+/**
+ * take the next task, or the task with the highest priority among the tasks available without pulling the whole source
+ * all tasks of an array, the queued tasks of a queue, and the next tasks of a producer up to PRIORITY_LOOKAHEAD
+ */
+const createTaskConsumer = <Yield extends Koka.AnyEff, TaskReturn>(
+    inputs: TaskSource<Yield, TaskReturn>,
+    priority?: TaskPriority,
+): TaskConsumer<Yield, TaskReturn> => {
+    const priorities = new Map<number, number>()
+
+    /**
+     * get the position of the candidate with the highest priority, the first one among the same priority
+     */
+    const pick = (candidates: ReadonlyArray<TaskCandidate<Yield, TaskReturn>>) => {
+        let highest = -1
+        let highestPriority = Number.NEGATIVE_INFINITY
+
+        for (let i = 0; i < candidates.length; i++) {
+            const { index } = candidates[i]
+
+            if (!priorities.has(index)) {
+                priorities.set(index, priority!(index))
+            }
+
+            const value = priorities.get(index)!
+
+            if (highest === -1 || value > highestPriority) {
+                highest = i
+                highestPriority = value
+            }
+        }
+
+        if (highest !== -1) {
+            priorities.delete(candidates[highest].index)
+        }
+
+        return highest
+    }
+
+    if (typeof inputs !== 'function' && !Array.isArray(inputs)) {
+        return {
+            next: () => {
+                const candidate = inputs.take(priority ? pick : undefined)
+
+                return candidate && toEntry(candidate)
+            },
+            wait: () => inputs.wait(),
+        }
+    }
+
+    if (Array.isArray(inputs) && priority) {
+        // the tasks of an array are all available, so they are ordered by priority once
+        let order: number[] | undefined
+        let position = 0
+
+        return {
+            next: () => {
+                order ??= inputs
+                    .map((_, index) => ({ index, priority: priority(index) }))
+                    .sort((a, b) => b.priority - a.priority || a.index - b.index)
+                    .map(({ index }) => index)
+
+                if (position >= order.length) {
+                    return
+                }
+
+                const index = order[position++]
+
+                return toEntry({ index, task: inputs[index] })
+            },
+            wait: () => undefined,
+        }
+    }
+
     const producer: TaskProducer<Yield, TaskReturn> = typeof inputs === 'function' ? inputs : (index) => inputs[index]
 
     let count = 0
     let noTask = false
-    const getNextTask = () => {
+
+    const pull = (): TaskCandidate<Yield, TaskReturn> | undefined => {
         if (noTask) {
             return undefined
         }
 
-        const task = producer(count++)
+        const index = count++
+        const task = producer(index)
 
         if (!task) {
             noTask = true
             return
         }
 
-        const gen = typeof task === 'function' ? task() : task
+        return {
+            index,
+            task,
+        }
+    }
+
+    const lookahead = [] as Array<TaskCandidate<Yield, TaskReturn>>
+
+    const getNextTask = () => {
+        if (!priority) {
+            const candidate = pull()
+
+            return candidate && toEntry(candidate)
+        }
+
+        while (lookahead.length < PRIORITY_LOOKAHEAD) {
+            const candidate = pull()
+
+            if (!candidate) {
+                break
+            }
+
+            lookahead.push(candidate)
+        }
+
+        const highest = pick(lookahead)
+
+        if (highest === -1) {
+            return
+        }
 
-        return gen
+        return toEntry(lookahead.splice(highest, 1)[0])
     }
 
     return {
         next: getNextTask,
+        // the tasks are pulled synchronously, so there are no more tasks once the producer returns undefined
+        wait: () => undefined,
+    }
+}
+
+export type TaskQueueOptions = {
+    /**
+     * the max number of queued tasks, pushing more tasks waits until the running Task.concurrent takes them
+     * a task of Task.concurrent consuming the queue only pushes over it when all running tasks of Task.concurrent wait to push
+     */
+    capacity?: number
+}
+
+/**
+ * a task source where tasks can be pushed while Task.concurrent is running, e.g. links discovered by earlier tasks
+ * Task.concurrent waits for more tasks until the queue is closed
+ */
+export type TaskQueue<Yield, TaskReturn> = {
+    push: (task: Koka.Effector<Yield, TaskReturn>) => Generator<Async.Async, void>
+    /**
+     * no more tasks can be pushed, Task.concurrent is done when the queued tasks are done
+     */
+    close: () => void
+    /**
+     * take the first queued task, or the one at the position picked among the queued tasks
+     * @internal
+     */
+    take: (
+        pick?: (candidates: ReadonlyArray<TaskCandidate<Yield, TaskReturn>>) => number,
+    ) => TaskCandidate<Yield, TaskReturn> | undefined
+    /** @internal */
+    wait: () => Promise<void> | undefined
+}
+
+type AnyTaskQueue = TaskQueue<any, any>
+
+/**
+ * a Task.concurrent consuming a queue
+ */
+type QueueConsumer = {
+    queue: AnyTaskQueue
+    maxConcurrency: number
+    /**
+     * the number of tasks of Task.concurrent neither completed nor settled
+     */
+    running: () => number
+    /**
+     * the number of tasks of Task.concurrent waiting for room in the queue
+     */
+    pushing: number
+}
+
+/**
+ * the consumers of queues running the current step of a task
+ * it is set while the steps run, so pushing to a queue reads it without yielding effects
+ */
+let queueConsumers: QueueConsumer[] = []
+
+const consumeQueues = (consumers: QueueConsumer[]) => {
+    return <T>(step: () => T): T => {
+        const previous = queueConsumers
+        queueConsumers = consumers
+
+        try {
+            return step()
+        } finally {
+            queueConsumers = previous
+        }
+    }
+}
+
+type Pusher = {
+    woken: boolean
+    resolve: () => void
+}
+
+export const createQueue = <Yield, TaskReturn>(options?: TaskQueueOptions): TaskQueue<Yield, TaskReturn> => {
+    const capacity = options?.capacity ?? Number.POSITIVE_INFINITY
+
+    if (!(capacity > 0)) {
+        throw new Error(`capacity must be greater than 0`)
+    }
+
+    const tasks = [] as Array<TaskCandidate<Yield, TaskReturn>>
+    const pushers = [] as Pusher[]
+    const consumers = [] as Array<() => void>
+
+    let closed = false
+    let count = 0
+
+    const notify = () => {
+        for (const resolve of consumers.splice(0)) {
+            resolve()
+        }
+    }
+
+    const wakePusher = () => {
+        const pusher = pushers.shift()
+
+        if (pusher) {
+            pusher.woken = true
+            pusher.resolve()
+        }
+    }
+
+    const queue: TaskQueue<Yield, TaskReturn> = {
+        push: function* (task) {
+            // the innermost Task.concurrent consuming the queue, when the task pushing runs in it
+            const consumer = queueConsumers.filter((item) => item.queue === queue).pop()
+
+            while (true) {
+                if (closed) {
+                    throw new Error(`Can not push tasks to a closed queue`)
+                }
+
+                if (tasks.length < capacity) {
+                    break
+                }
+
+                // a task waiting for room holds a slot needed to take from the queue, so when the slots are full
+                // the last running task of the consumer pushes over the capacity rather than waiting forever
+                if (
+                    consumer &&
+                    consumer.running() >= consumer.maxConcurrency &&
+                    consumer.pushing + 1 >= consumer.running()
+                ) {
+                    break
+                }
+
+                const { promise, resolve } = withResolvers<void>()
+                const pusher: Pusher = {
+                    woken: false,
+                    resolve,
+                }
+
+                pushers.push(pusher)
+
+                let resumed = false
+
+                if (consumer) {
+                    consumer.pushing += 1
+                }
+
+                try {
+                    yield* Async.await(promise)
+                    resumed = true
+                } finally {
+                    if (consumer) {
+                        consumer.pushing -= 1
+                    }
+
+                    // pass the room to the next pusher when the pusher is cleaned up
+                    if (!resumed) {
+                        if (pusher.woken) {
+                            wakePusher()
+                        } else {
+                            pushers.splice(pushers.indexOf(pusher), 1)
+                        }
+                    }
+                }
+            }
+
+            // the index of a queued task is its order of pushing
+            tasks.push({
+                index: count++,
+                task,
+            })
+            notify()
+        },
+        close: () => {
+            closed = true
+            notify()
+
+            for (const pusher of pushers.splice(0)) {
+                pusher.woken = true
+                pusher.resolve()
+            }
+        },
+        take: (pick) => {
+            const position = pick ? pick(tasks) : 0
+
+            if (position === -1 || position >= tasks.length) {
+                return
+            }
+
+            const [candidate] = tasks.splice(position, 1)
+
+            wakePusher()
+
+            return candidate
+        },
+        wait: () => {
+            if (tasks.length > 0) {
+                return Promise.resolve()
+            }
+
+            if (closed) {
+                return
+            }
+
+            const { promise, resolve } = withResolvers<void>()
+
+            consumers.push(resolve)
+
+            return promise
+        },
     }
+
+    return queue
 }
 
 export function* series<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn>(
@@ -131,17 +487,88 @@ export function* parallel<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn>(
     })
 }
 
-export type ConcurrentOptions = {
+/**
+ * propagate: an err effect of a task fails Task.concurrent and interrupts the other tasks
+ * isolate: the err effects of tasks are delivered to the handler as the results of tasks, and the other tasks keep running
+ */
+export type ErrorMode = 'propagate' | 'isolate'
+
+export type SchedulingOptions = {
     maxConcurrency?: number
+    /**
+     * the priority of the task at the index, the task with the highest priority is started first when a slot frees
+     * it is compared among the available tasks: all tasks of an array, the queued tasks of a queue,
+     * and the next 64 tasks of a producer
+     */
+    priority?: (index: number) => number
+    /**
+     * the key of the task at the index, a task with the same key as a task in flight is not started
+     * and receives the result of the task in flight
+     */
+    dedupeKey?: (index: number) => string | undefined
 }
 
-export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn>(
+export type ConcurrentOptions = SchedulingOptions & {
+    errorMode?: ErrorMode
+}
+
+export type TaskInfo = {
+    index: number
+}
+
+/**
+ * observe the tasks of Task.concurrent, e.g. for metrics
+ * a task ends with its value, its failure, or an interruption when it is no longer needed
+ */
+export type Supervisor = {
+    onStart?: (task: TaskInfo) => void
+    onEnd?: (task: TaskInfo, exit: Cause.Exit<unknown, unknown>) => void
+}
+
+/**
+ * the supervisor of the Task.supervise call running the current step, read by Task.concurrent when it starts
+ */
+let currentSupervisor: Supervisor | undefined
+
+/**
+ * run the effector with the supervisor observing the tasks of Task.concurrent in it
+ */
+export function supervise<Yield extends Koka.AnyEff, Return>(
+    input: Koka.Effector<Yield, Return>,
+    supervisor: Supervisor,
+): Generator<Yield, Return> {
+    const gen = typeof input === 'function' ? input() : input
+
+    return Gen.wrapSteps(gen, (step) => {
+        const previous = currentSupervisor
+        currentSupervisor = supervisor
+
+        try {
+            return step()
+        } finally {
+            currentSupervisor = previous
+        }
+    })
+}
+
+export function concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn>(
+    inputs: TaskSource<Yield, TaskReturn>,
+    handler: TaskResultsHandler<Result.Result<TaskReturn, Err.ExtractErr<Yield>>, HandlerReturn>,
+    options: ConcurrentOptions & { errorMode: 'isolate' },
+): Generator<Async.Async | Err.ExcludeErr<Yield>, HandlerReturn>
+export function concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn>(
     inputs: TaskSource<Yield, TaskReturn>,
     handler: TaskResultsHandler<TaskReturn, HandlerReturn>,
+    options?: ConcurrentOptions & { errorMode?: 'propagate' },
+): Generator<Async.Async | Yield, HandlerReturn>
+export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn>(
+    inputs: TaskSource<Yield, TaskReturn>,
+    handler: TaskResultsHandler<unknown, HandlerReturn>,
     options?: ConcurrentOptions,
 ): Generator<Async.Async | Yield, HandlerReturn> {
     const config = {
         maxConcurrency: Number.POSITIVE_INFINITY,
+        errorMode: 'propagate' as ErrorMode,
         ...options,
     }
 
@@ -149,16 +576,31 @@ export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn
         throw new Error(`maxConcurrency must be greater than 0`)
     }
 
-    type ProcessingItem = {
-        type: 'initial'
+    const supervisor = currentSupervisor
+
+    type ItemInfo = {
         gen: Generator<Yield, TaskReturn>
+        /**
+         * the index of the task in the source
+         */
         index: number
+        /**
+         * the position of the item in the started items
+         */
+        position: number
+        key?: string
+        /**
+         * the indexes of the tasks deduped by the task, which receive its result
+         */
+        shared: number[]
+    }
+
+    type ProcessingItem = ItemInfo & {
+        type: 'initial'
     }
 
-    type ProcessedItem = {
+    type ProcessedItem = ItemInfo & {
         type: 'completed'
-        index: number
-        gen: Generator<Yield, TaskReturn>
         value: TaskReturn
     }
 
@@ -180,29 +622,166 @@ export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn
 
     const items = [] as ProcessItem[]
 
-    const consumer = createTaskConsumer(inputs)
+    const consumer = createTaskConsumer(inputs, config.priority)
+
+    const queue = typeof inputs !== 'function' && !Array.isArray(inputs) ? inputs : undefined
+
+    // the number of tasks neither completed nor settled
+    let running = 0
+
+    // the tasks consuming the queue count the running tasks when they wait for room in it
+    const consume = queue
+        ? consumeQueues([
+              ...queueConsumers,
+              {
+                  queue,
+                  maxConcurrency: config.maxConcurrency,
+                  running: () => running,
+                  pushing: 0,
+              },
+          ])
+        : undefined
+
+    // the tasks in flight by their dedupe keys
+    const inflight = new Map<string, ProcessingItem>()
 
-    while (items.length < config.maxConcurrency) {
-        const gen = consumer.next()
+    const start = (entry: TaskEntry<Yield, TaskReturn>, key: string | undefined): ProcessingItem => {
+        const item: ProcessingItem = {
+            type: 'initial',
+            gen: consume ? Gen.wrapSteps(entry.gen, consume) : entry.gen,
+            index: entry.index,
+            position: items.length,
+            key,
+            shared: [],
+        }
+
+        items.push(item)
+        running++
+
+        if (key !== undefined) {
+            inflight.set(key, item)
+        }
+
+        supervisor?.onStart?.({ index: item.index })
 
-        if (!gen) {
+        return item
+    }
+
+    /**
+     * start the next task, the tasks deduped by a task in flight are not started
+     */
+    const startNext = (): ProcessingItem | undefined => {
+        for (let entry = consumer.next(); entry; entry = consumer.next()) {
+            const key = config.dedupeKey?.(entry.index)
+            const owner = key === undefined ? undefined : inflight.get(key)
+
+            if (!owner) {
+                return start(entry, key)
+            }
+
+            owner.shared.push(entry.index)
+        }
+    }
+
+    while (running < config.maxConcurrency) {
+        if (!startNext()) {
             break
         }
+    }
 
-        items.push({
-            type: 'initial',
-            gen,
-            index: items.length,
-        })
+    const stream = createStream<TaskResult<unknown>>()
+
+    const processResults: ProcessResult[] = []
+
+    // causes of failed tasks, a settled task is not cleaned up or interrupted again
+    const causes = [] as Cause.AnyCause[]
+    const settledIndexes = new Set<number>()
+
+    // the fiber refs of each task, copied from the fiber refs of the parent on first access
+    const taskRefs = new Map<number, FiberRef.FiberRefs>()
+
+    let parentRefs: FiberRef.FiberRefs | undefined
+
+    const isPending = (item: ProcessItem) => {
+        return item.type !== 'completed' && !settledIndexes.has(item.index)
     }
 
-    const stream = createStream<TaskResult<TaskReturn>>()
+    const end = (item: ProcessItem, exit: Cause.Exit<unknown, unknown>) => {
+        running--
+        taskRefs.delete(item.index)
+
+        if (item.key !== undefined && inflight.get(item.key) === item) {
+            inflight.delete(item.key)
+        }
+
+        supervisor?.onEnd?.({ index: item.index }, exit)
+    }
+
+    const fail = (item: ProcessItem, cause: Cause.AnyCause) => {
+        settledIndexes.add(item.index)
+        causes.push(cause)
+        end(item, Cause.failure(cause))
+    }
+
+    /**
+     * deliver the result of the task to the handler, and start the next task
+     */
+    const deliver = (item: ProcessItem, value: unknown) => {
+        for (const index of [item.index, ...item.shared]) {
+            stream.next({
+                index,
+                value,
+            })
+        }
+
+        return startNext()
+    }
+
+    const advance = (item: ProcessItem, resume: () => IteratorResult<Yield, TaskReturn>) => {
+        try {
+            return resume()
+        } catch (error) {
+            fail(item, Cause.fromError(error))
+            throw error
+        }
+    }
 
-    const cleanUpAllGen = () => {
-        // Clean up any remaining items
+    /**
+     * deliver the rejections that already settled and interrupt the remaining tasks
+     * so the cause of the failure contains every failure of the batch
+     */
+    const interruptAll = function* () {
+        for (const processResult of processResults.splice(0)) {
+            const item = processResult.item
+
+            if (processResult.type === 'err' && isPending(item)) {
+                try {
+                    const result = item.gen.throw(processResult.error)
+
+                    if (result.done) {
+                        settledIndexes.add(item.index)
+                        end(item, { type: 'ok', value: result.value })
+                    }
+                } catch (error) {
+                    fail(item, Cause.fromError(error))
+                }
+            }
+        }
+
+        for (const item of items) {
+            if (isPending(item)) {
+                fail(item, Cause.interrupt())
+                yield* Gen.finalize(item.gen)
+            }
+        }
+    }
+
+    const cleanUpAllGen = function* () {
+        // Clean up any remaining items, effects yielded by their finally blocks are forwarded
         for (const item of items) {
-            if (item.type !== 'completed') {
-                Gen.cleanUpGen(item.gen)
+            if (isPending(item)) {
+                end(item, Cause.failure(Cause.interrupt()))
+                yield* Gen.finalize(item.gen)
             }
         }
     }
@@ -221,7 +800,6 @@ export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn
 
     try {
         const promises: Promise<void | HandlerResult>[] = []
-        const processResults: ProcessResult[] = []
 
         const wrapPromise = (promise: Promise<unknown>, item: ProcessItem): Promise<void> => {
             const wrappedPromise: Promise<void> = promise.then(
@@ -250,48 +828,56 @@ export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn
 
         const processItem = function* (
             item: ProcessItem,
-            result: IteratorResult<Yield, TaskReturn>,
+            resume: () => IteratorResult<Yield, TaskReturn>,
         ): Generator<any, ProcessItem | undefined, any> {
+            let result = advance(item, resume)
+
             while (!result.done) {
                 const effect = result.value
 
                 if (effect.type === 'async') {
                     wrapPromise(effect.promise, item)
                     return
+                } else if (effect.type === 'err') {
+                    // err effects are never resumed, the task failed
+                    Err.addTrace(effect, `Task.concurrent[${item.index}]`)
+
+                    if (config.errorMode === 'isolate') {
+                        settledIndexes.add(item.index)
+                        end(item, Cause.failure(Cause.fromErr(effect)))
+                        yield* Gen.finalize(item.gen)
+                        return deliver(item, effect)
+                    }
+
+                    fail(item, Cause.fromErr(effect))
+                    yield* Gen.finalize(item.gen)
+                    yield* interruptAll()
+                    Cause.annotate(effect, Cause.parallel(causes))
+                    yield* Err.rethrow(effect)
+                } else if (effect.type === 'opt' && effect.name === FiberRef.FiberRefsOpt.field) {
+                    if (!taskRefs.has(item.index)) {
+                        parentRefs ??= (yield effect) as FiberRef.FiberRefs | undefined
+                        taskRefs.set(item.index, FiberRef.fork(parentRefs))
+                    }
+
+                    const refs = taskRefs.get(item.index)
+                    result = advance(item, () => item.gen.next(refs))
                 } else {
-                    result = item.gen.next(yield effect)
+                    const value = yield effect
+                    result = advance(item, () => item.gen.next(value))
                 }
             }
 
             if (item.type === 'initial') {
                 const processedItem: ProcessedItem = {
+                    ...item,
                     type: 'completed',
-                    index: item.index,
-                    gen: item.gen,
-                    value: result.value,
-                }
-                items[item.index] = processedItem
-
-                stream.next({
-                    index: item.index,
                     value: result.value,
-                })
-
-                const gen = consumer.next()
-
-                if (!gen) {
-                    return
-                }
-
-                const newItem: ProcessItem = {
-                    type: 'initial',
-                    gen,
-                    index: items.length,
                 }
+                items[item.position] = processedItem
+                end(item, { type: 'ok', value: result.value })
 
-                items.push(newItem)
-
-                return newItem
+                return deliver(item, config.errorMode === 'isolate' ? Result.ok(result.value) : result.value)
             } else if (item.type === 'completed') {
                 throw new Error(
                     `Unexpected completion of item that was already completed: ${JSON.stringify(item, null, 2)}`,
@@ -323,13 +909,59 @@ export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn
 
         promises.push(handlerPromise)
 
+        /**
+         * start the tasks available in the free slots, e.g. tasks pushed to a queue
+         */
+        const fill = function* () {
+            while (running < config.maxConcurrency) {
+                let item: ProcessItem | undefined = startNext()
+
+                if (!item) {
+                    break
+                }
+
+                while (item) {
+                    const current: ProcessItem = item
+                    item = yield* processItem(current, () => current.gen.next())
+                }
+            }
+        }
+
+        let waiting: Promise<void> | undefined
+
+        /**
+         * wait for more tasks while a slot is free, so the stream is not done until the source is exhausted
+         */
+        const wait = () => {
+            if (waiting || running >= config.maxConcurrency) {
+                return
+            }
+
+            const promise = consumer.wait()
+
+            if (!promise) {
+                return
+            }
+
+            const wrappedPromise: Promise<void> = promise.then(() => {
+                promises.splice(promises.indexOf(wrappedPromise), 1)
+                waiting = undefined
+            })
+
+            waiting = wrappedPromise
+            promises.push(wrappedPromise)
+        }
+
         let count = 0
 
         while (count < items.length) {
             const item = items[count++]
-            yield* processItem(item, item.gen.next())
+            yield* processItem(item, () => item.gen.next())
         }
 
+        yield* fill()
+        wait()
+
         while (promises.length > 0) {
             if (handlerResult) {
                 break
@@ -347,21 +979,23 @@ export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn
                 const processResult = processResults.shift()!
                 const item = processResult.item
 
-                let result: IteratorResult<Yield, TaskReturn>
-
-                if (processResult.type === 'ok') {
-                    result = item.gen.next(processResult.value)
-                } else {
-                    result = item.gen.throw(processResult.error)
-                }
-
-                let newItem = yield* processItem(item, result)
+                let newItem = yield* processItem(item, () => {
+                    if (processResult.type === 'ok') {
+                        return item.gen.next(processResult.value)
+                    } else {
+                        return item.gen.throw(processResult.error)
+                    }
+                })
 
                 while (newItem) {
-                    newItem = yield* processItem(newItem, newItem.gen.next())
+                    const gen = newItem.gen
+                    newItem = yield* processItem(newItem, () => gen.next())
                 }
             }
 
+            yield* fill()
+            wait()
+
             if (promises.length === 1) {
                 stream.done()
                 const result = yield* Async.await(promises[0])
@@ -381,8 +1015,15 @@ export function* concurrent<Yield extends Koka.AnyEff, TaskReturn, HandlerReturn
         } else {
             return handlerResult.value
         }
+    } catch (error) {
+        if (causes.length > 0) {
+            yield* interruptAll()
+            Cause.annotate(error, Cause.parallel(causes))
+        }
+
+        throw error
     } finally {
-        cleanUpAllGen()
+        yield* cleanUpAllGen()
     }
 }
 
@@ -419,9 +1060,7 @@ export function* object<T extends Record<string, unknown>>(
     return result as Koka.ExtractReturn<T>
 }
 
-export type AllOptions = {
-    maxConcurrency?: number
-}
+export type AllOptions = SchedulingOptions
 
 export function* all<Yield extends Koka.AnyEff, Return>(
     inputs: TaskSource<Yield, Return>,
@@ -444,9 +1083,7 @@ export function* all<Yield extends Koka.AnyEff, Return>(
     return results
 }
 
-export type RaceOptions = {
-    maxConcurrency?: number
-}
+export type RaceOptions = SchedulingOptions
 
 export function* race<Yield extends Koka.AnyEff, Return>(
     inputs: TaskSource<Yield, Return>,
@@ -466,3 +1103,358 @@ export function* race<Yield extends Koka.AnyEff, Return>(
 
     return result
 }
+
+export type AllSettledOptions = SchedulingOptions
+
+/**
+ * run all tasks and get the result of each task, an err effect of a task does not interrupt the others
+ * thrown errors still fail all tasks, as they are defects rather than expected failures
+ */
+export function* allSettled<Yield extends Koka.AnyEff, Return>(
+    inputs: TaskSource<Yield, Return>,
+    options?: AllSettledOptions,
+): Generator<Err.ExcludeErr<Yield> | Async.Async, Array<Result.Result<Return, Err.ExtractErr<Yield>>>> {
+    return yield* concurrent(
+        inputs,
+        async (stream) => {
+            const results = [] as Array<Result.Result<Return, Err.ExtractErr<Yield>>>
+
+            for await (const { index, value } of stream) {
+                results[index] = value
+            }
+
+            return results
+        },
+        {
+            ...options,
+            errorMode: 'isolate',
+        },
+    )
+}
+
+/**
+ * the errs of all tasks of Task.any, in the order of the tasks
+ */
+export class AggregateErr extends Err.Err('AggregateErr')<Err.AnyErr[]> {}
+
+export type AggregateErrOf<E> = Err.Err<'AggregateErr', E[]>
+
+export type AnyOptions = SchedulingOptions
+
+/**
+ * get the value of the first task succeeding, the other tasks are interrupted
+ * it throws an AggregateErr with the errs of all tasks when all of them fail, thrown errors are not caught
+ */
+function* anyTask<Yield extends Koka.AnyEff, Return>(
+    inputs: TaskSource<Yield, Return>,
+    options?: AnyOptions,
+): Generator<Err.ExcludeErr<Yield> | Async.Async | AggregateErrOf<Err.ExtractErr<Yield>>, Return> {
+    const result = yield* concurrent(
+        inputs,
+        async (stream) => {
+            const errors = [] as Err.ExtractErr<Yield>[]
+
+            for await (const { index, value } of stream) {
+                if (value.type === 'ok') {
+                    return value
+                }
+
+                errors[index] = value as Err.ExtractErr<Yield>
+            }
+
+            return new AggregateErr(errors) as AggregateErrOf<Err.ExtractErr<Yield>>
+        },
+        {
+            ...options,
+            errorMode: 'isolate',
+        },
+    )
+
+    if (result.type === 'ok') {
+        return result.value
+    }
+
+    throw yield* Err.throw(result)
+}
+
+export { anyTask as any }
+
+type Waiter = {
+    permits: number
+    granted: boolean
+    resolve: () => void
+}
+
+/**
+ * permits shared by effectors across runs, e.g. to limit the concurrent calls to an api
+ */
+export type Semaphore = {
+    readonly permits: number
+    /**
+     * the number of permits not held by effectors
+     */
+    available: () => number
+    /**
+     * the number of effectors waiting for permits
+     */
+    waiting: () => number
+}
+
+type SemaphoreState = {
+    acquire: (permits: number) => Generator<Async.Async, void>
+    release: (permits: number) => void
+}
+
+/**
+ * the state of semaphores, kept out of the semaphores so only Task.withPermits changes it
+ */
+const semaphoreStates = new WeakMap<Semaphore, SemaphoreState>()
+
+export const createSemaphore = (permits: number): Semaphore => {
+    if (!Number.isInteger(permits) || permits < 1) {
+        throw new Error(`permits must be a positive integer`)
+    }
+
+    const waiters = [] as Waiter[]
+
+    let available = permits
+
+    /**
+     * grant the permits to the waiters in order, a waiter blocks the ones after it until it gets its permits
+     */
+    const grant = () => {
+        while (waiters.length > 0 && waiters[0].permits <= available) {
+            const waiter = waiters.shift()!
+
+            available -= waiter.permits
+            waiter.granted = true
+            waiter.resolve()
+        }
+    }
+
+    const release = (count: number) => {
+        available += count
+        grant()
+    }
+
+    function* acquire(count: number): Generator<Async.Async, void> {
+        if (!Number.isInteger(count) || count < 1 || count > permits) {
+            throw new Error(`permits must be a positive integer not greater than ${permits}`)
+        }
+
+        if (waiters.length === 0 && available >= count) {
+            available -= count
+            return
+        }
+
+        const { promise, resolve } = withResolvers<void>()
+        const waiter: Waiter = {
+            permits: count,
+            granted: false,
+            resolve,
+        }
+
+        waiters.push(waiter)
+
+        let acquired = false
+
+        try {
+            yield* Async.await(promise)
+            acquired = true
+        } finally {
+            // the waiter is cleaned up before it gets its permits, or before it is resumed with them
+            if (!acquired) {
+                if (waiter.granted) {
+                    release(count)
+                } else {
+                    waiters.splice(waiters.indexOf(waiter), 1)
+                    grant()
+                }
+            }
+        }
+    }
+
+    const semaphore: Semaphore = {
+        permits,
+        available: () => available,
+        waiting: () => waiters.length,
+    }
+
+    semaphoreStates.set(semaphore, {
+        acquire,
+        release,
+    })
+
+    return semaphore
+}
+
+/**
+ * run the effector with the permits, waiting in order until they are available
+ * the permits are released when the effector is done, fails or is cleaned up
+ */
+export function* withPermits<Yield, Return>(
+    semaphore: Semaphore,
+    input: Koka.Effector<Yield, Return>,
+    permits = 1,
+): Generator<Yield | Async.Async, Return> {
+    const state = semaphoreStates.get(semaphore)!
+
+    yield* state.acquire(permits)
+
+    try {
+        const gen = typeof input === 'function' ? input() : input
+
+        return yield* gen
+    } finally {
+        state.release(permits)
+    }
+}
+
+export type Mutex = Semaphore
+
+export const createMutex = (): Mutex => {
+    return createSemaphore(1)
+}
+
+/**
+ * run the effector when no other effector holds the mutex
+ */
+export function* withLock<Yield, Return>(
+    mutex: Mutex,
+    input: Koka.Effector<Yield, Return>,
+): Generator<Yield | Async.Async, Return> {
+    return yield* withPermits(mutex, input, 1)
+}
+
+export type RateLimiterOptions = {
+    /**
+     * the number of effectors allowed to start in the interval, and the size of bursts
+     */
+    limit: number
+    /**
+     * in milliseconds
+     */
+    interval: number
+}
+
+/**
+ * a token bucket refilled with limit tokens per interval, shared by effectors across runs
+ */
+export type RateLimiter = {
+    readonly limit: number
+    readonly interval: number
+    /**
+     * the tokens in the bucket when it was last refilled, the bucket is refilled when effectors start or wait
+     */
+    tokens: () => number
+    /**
+     * the number of effectors waiting for a token
+     */
+    waiting: () => number
+}
+
+type RateWaiter = {
+    /**
+     * wake the waiter to check the tokens again before its timer fires
+     */
+    wake?: () => void
+}
+
+/**
+ * the token takers of rate limiters, kept out of the rate limiters so only Task.withRateLimit takes tokens
+ */
+const rateLimiterTakers = new WeakMap<RateLimiter, () => Generator<Async.Async | Async.ClockOpt, void>>()
+
+export const createRateLimiter = (options: RateLimiterOptions): RateLimiter => {
+    const { limit, interval } = options
+
+    if (!(limit > 0) || !(interval > 0)) {
+        throw new Error(`limit and interval must be greater than 0`)
+    }
+
+    const waiters = [] as RateWaiter[]
+
+    let tokens = limit
+    let updatedAt: number | undefined
+
+    const refill = (now: number) => {
+        if (updatedAt !== undefined) {
+            tokens = Math.min(limit, tokens + ((now - updatedAt) * limit) / interval)
+        }
+
+        updatedAt = now
+    }
+
+    /**
+     * take a token in order, a waiter waits until the tokens of the waiters before it and its own token are refilled
+     */
+    function* take(): Generator<Async.Async | Async.ClockOpt, void> {
+        const clock = yield* Async.getClock()
+        const waiter: RateWaiter = {}
+
+        waiters.push(waiter)
+
+        let acquired = false
+
+        try {
+            while (true) {
+                refill(clock.now())
+
+                const position = waiters.indexOf(waiter)
+
+                if (position === 0 && tokens >= 1) {
+                    break
+                }
+
+                const { promise, resolve } = withResolvers<void>()
+                const handle = clock.setTimeout(resolve, ((position + 1 - tokens) * interval) / limit)
+
+                waiter.wake = resolve
+
+                try {
+                    yield* Async.await(promise)
+                } finally {
+                    clock.clearTimeout(handle)
+                }
+            }
+
+            tokens -= 1
+            acquired = true
+        } finally {
+            waiters.splice(waiters.indexOf(waiter), 1)
+
+            // the waiters after a waiter cleaned up get their tokens earlier
+            if (!acquired) {
+                for (const rest of waiters) {
+                    rest.wake?.()
+                }
+            }
+        }
+    }
+
+    const limiter: RateLimiter = {
+        limit,
+        interval,
+        tokens: () => tokens,
+        waiting: () => waiters.length,
+    }
+
+    rateLimiterTakers.set(limiter, take)
+
+    return limiter
+}
+
+/**
+ * run the effector when a token is available, the waiting effectors start in order
+ * an effector cleaned up while waiting lets the waiting effectors after it start earlier
+ */
+export function* withRateLimit<Yield, Return>(
+    limiter: RateLimiter,
+    input: Koka.Effector<Yield, Return>,
+): Generator<Yield | Async.Async | Async.ClockOpt, Return> {
+    yield* rateLimiterTakers.get(limiter)!()
+
+    const gen = typeof input === 'function' ? input() : input
+
+    return yield* gen
+}
@@ -0,0 +1,183 @@
+import * as Async from './async.ts'
+import * as Koka from './koka.ts'
+import type * as Opt from './opt.ts'
+
+type Timer = {
+    id: number
+    time: number
+    callback: () => void
+}
+
+export class VirtualClock implements Async.Clock {
+    private current = 0
+    private timerId = 0
+    private timers = new Map<number, Timer>()
+
+    now(): number {
+        return this.current
+    }
+
+    setTimeout(callback: () => void, ms: number): number {
+        const id = ++this.timerId
+
+        this.timers.set(id, {
+            id,
+            time: this.current + Math.max(0, ms),
+            callback,
+        })
+
+        return id
+    }
+
+    clearTimeout(handle: unknown): void {
+        this.timers.delete(handle as number)
+    }
+
+    get pendingTimers(): number {
+        return this.timers.size
+    }
+
+    /**
+     * fire the earliest timer scheduled no later than the given time
+     * timers scheduled at the same time are fired in the order they were created
+     */
+    fireNext(until: number): boolean {
+        let next: Timer | undefined
+
+        for (const timer of this.timers.values()) {
+            if (timer.time <= until && (!next || timer.time < next.time)) {
+                next = timer
+            }
+        }
+
+        if (!next) {
+            return false
+        }
+
+        this.timers.delete(next.id)
+        this.current = Math.max(this.current, next.time)
+        next.callback()
+
+        return true
+    }
+
+    setTime(time: number): void {
+        this.current = Math.max(this.current, time)
+    }
+}
+
+export type TestRunStatus<Return> =
+    | {
+          type: 'pending'
+      }
+    | {
+          type: 'ok'
+          value: Return
+      }
+    | {
+          type: 'error'
+          error: unknown
+      }
+
+export type TestRun<Return> = {
+    promise: Promise<Return>
+    status(): TestRunStatus<Return>
+}
+
+export type TestRuntimeOptions = {
+    maxTimers?: number
+}
+
+const realSetTimeout = setTimeout
+
+/**
+ * run effectors with a virtual clock
+ * pending promise callbacks are drained between timers, so the interleaving of tasks only depends on virtual time
+ */
+export class TestRuntime {
+    readonly clock = new VirtualClock()
+
+    private maxTimers: number
+
+    constructor(options?: TestRuntimeOptions) {
+        this.maxTimers = options?.maxTimers ?? 10000
+    }
+
+    now(): number {
+        return this.clock.now()
+    }
+
+    run<Return>(
+        input: Koka.Effector<Async.Async | Opt.AnyOpt, Return>,
+        options?: Koka.RunAsyncOptions,
+    ): TestRun<Return> {
+        let status: TestRunStatus<Return> = {
+            type: 'pending',
+        }
+
+        const program = Koka.try(input).handle({
+            [Async.ClockOpt.field]: this.clock,
+        })
+
+        const promise = Koka.runAsync(program, options)
+
+        promise.then(
+            (value) => {
+                status = {
+                    type: 'ok',
+                    value,
+                }
+            },
+            (error) => {
+                status = {
+                    type: 'error',
+                    error,
+                }
+            },
+        )
+
+        return {
+            promise,
+            status: () => status,
+        }
+    }
+
+    /**
+     * drain all pending promise callbacks without moving the virtual time
+     */
+    flush(): Promise<void> {
+        return new Promise((resolve) => {
+            realSetTimeout(resolve, 0)
+        })
+    }
+
+    async advanceBy(ms: number): Promise<void> {
+        await this.advanceTo(this.clock.now() + ms)
+    }
+
+    async advanceTo(time: number): Promise<void> {
+        await this.fireTimers(time)
+        this.clock.setTime(time)
+    }
+
+    /**
+     * fire timers until there is none left
+     */
+    async runAll(): Promise<void> {
+        await this.fireTimers(Number.POSITIVE_INFINITY)
+    }
+
+    private async fireTimers(until: number): Promise<void> {
+        await this.flush()
+
+        let count = 0
+
+        while (this.clock.fireNext(until)) {
+            if (++count > this.maxTimers) {
+                throw new Error(`Exceeded ${this.maxTimers} timers, the effector may schedule timers endlessly`)
+            }
+
+            await this.flush()
+        }
+    }
+}
@@ -0,0 +1,394 @@
+import * as Async from './async.ts'
+import type * as Err from './err.ts'
+import * as Gen from './gen.ts'
+import type * as Koka from './koka.ts'
+import * as Opt from './opt.ts'
+import * as Result from './result.ts'
+
+export type Attributes = Record<string, string | number | boolean>
+
+/**
+ * an effect yielded inside the span, effects of nested spans are recorded by the innermost span
+ */
+export type SpanEvent = {
+    type: string
+    name?: string
+    time: number
+}
+
+export type SpanStatus = 'running' | 'ok' | 'error' | 'interrupted'
+
+export type Span = {
+    name: string
+    traceId: string
+    spanId: string
+    parentSpanId?: string
+    startTime: number
+    endTime?: number
+    status: SpanStatus
+    attributes: Attributes
+    events: SpanEvent[]
+    /**
+     * the return value or the err effect of the effector
+     */
+    result?: Result.Result<unknown, Err.AnyErr>
+    /**
+     * the error thrown by the effector
+     */
+    error?: unknown
+    children: Span[]
+}
+
+export type Tracer = {
+    onStart?: (span: Span) => void
+    onEnd?: (span: Span) => void
+    /**
+     * generate a random hex id of the given size in bytes, e.g. 16 bytes for trace ids and 8 bytes for span ids
+     */
+    generateId?: (bytes: number) => string
+}
+
+/**
+ * enable tracing by providing a tracer, spans are not recorded otherwise
+ */
+export class TracerOpt extends Opt.Opt('koka/tracer-opt')<Tracer> {}
+
+export type SpanContext = {
+    span: Span
+    tracer: Tracer
+    clock: Async.Clock
+}
+
+/**
+ * the innermost span, provided by Trace.span to the spans nested in it
+ */
+export class SpanOpt extends Opt.Opt('koka/span-opt')<SpanContext> {}
+
+const randomId = (bytes: number): string => {
+    let id = ''
+
+    for (let i = 0; i < bytes * 2; i++) {
+        id += Math.floor(Math.random() * 16).toString(16)
+    }
+
+    return id
+}
+
+/**
+ * the effects being forwarded by a span, so the outer spans do not record them again
+ */
+const forwarding = new WeakSet<object>()
+
+function* getContext(): Generator<
+    SpanOpt | TracerOpt | Async.ClockOpt,
+    SpanContext | Omit<SpanContext, 'span'> | undefined
+> {
+    const parent = yield* Opt.get(SpanOpt)
+
+    if (parent) {
+        return parent
+    }
+
+    const tracer = yield* Opt.get(TracerOpt)
+
+    if (!tracer) {
+        return
+    }
+
+    return {
+        tracer,
+        clock: yield* Async.getClock(),
+    }
+}
+
+/**
+ * record the start and end time, the effects and the result of the effector in a span
+ * spans nest across Koka.try, Task.concurrent and Async.await
+ */
+export function* span<Yield extends Koka.AnyEff, Return>(
+    name: string,
+    input: Koka.Effector<Yield, Return>,
+    attributes: Attributes = {},
+): Generator<Yield | SpanOpt | TracerOpt | Async.ClockOpt, Return> {
+    const gen = typeof input === 'function' ? input() : input
+    const context = yield* getContext()
+
+    if (!context) {
+        return yield* gen
+    }
+
+    const { tracer, clock } = context
+    const parent = 'span' in context ? context.span : undefined
+    const generateId = tracer.generateId ?? randomId
+
+    const current: Span = {
+        name,
+        traceId: parent?.traceId ?? generateId(16),
+        spanId: generateId(8),
+        parentSpanId: parent?.spanId,
+        startTime: clock.now(),
+        status: 'running',
+        attributes,
+        events: [],
+        children: [],
+    }
+
+    const spanContext: SpanContext = {
+        span: current,
+        tracer,
+        clock,
+    }
+
+    parent?.children.push(current)
+    tracer.onStart?.(current)
+
+    function* drive(result: IteratorResult<Koka.AnyEff, Return | undefined>) {
+        while (!result.done) {
+            const effect = result.value
+
+            if (effect.type === 'opt' && effect.name === SpanOpt.field) {
+                result = gen.next(spanContext)
+            } else {
+                const recording = !forwarding.has(effect)
+
+                // the runtime effects of koka, e.g. getting the clock, are not recorded
+                if (recording && !effect.name?.startsWith('koka/')) {
+                    current.events.push({
+                        type: effect.type,
+                        name: effect.name,
+                        time: clock.now(),
+                    })
+                }
+
+                if (effect.type === 'err') {
+                    // err effects are never resumed
+                    current.status = 'error'
+                    current.result = effect
+                }
+
+                if (recording) {
+                    forwarding.add(effect)
+                }
+
+                try {
+                    result = yield* Gen.forward(gen as Generator<Koka.AnyEff, Return | undefined>, effect)
+                } finally {
+                    if (recording) {
+                        forwarding.delete(effect)
+                    }
+                }
+            }
+        }
+
+        return result.value as Return
+    }
+
+    const settle = (status: SpanStatus, outcome: Pick<Span, 'result' | 'error'>) => {
+        current.status = status
+        Object.assign(current, outcome)
+    }
+
+    const end = () => {
+        current.endTime = clock.now()
+        tracer.onEnd?.(current)
+    }
+
+    try {
+        const value = yield* drive(gen.next()) as Generator<any, Return>
+
+        settle('ok', { result: Result.ok(value) })
+
+        return value
+    } catch (error) {
+        settle(error instanceof Async.AbortError ? 'interrupted' : 'error', { error })
+
+        throw error
+    } finally {
+        if (current.status === 'running') {
+            current.status = 'interrupted'
+        }
+
+        yield* drive((gen as Generator<Koka.AnyEff, Return | undefined>).return(undefined)) as Generator<any, Return>
+
+        end()
+    }
+}
+
+export type Collector = Tracer & {
+    /**
+     * the root spans
+     */
+    spans: Span[]
+}
+
+/**
+ * a tracer collecting the spans in memory for local inspection
+ */
+export const createCollector = (tracer: Tracer = {}): Collector => {
+    const spans = [] as Span[]
+
+    return {
+        ...tracer,
+        spans,
+        onStart: (span) => {
+            if (!span.parentSpanId) {
+                spans.push(span)
+            }
+
+            tracer.onStart?.(span)
+        },
+    }
+}
+
+/**
+ * render the span and its children as an indented tree, e.g.
+ * loadPage 12ms ok
+ *   loadUser 5ms ok
+ */
+export const format = (span: Span, indent = ''): string => {
+    const duration = span.endTime === undefined ? 'running' : `${span.endTime - span.startTime}ms`
+    const errName = span.result?.type === 'err' ? ` ${span.result.name}` : ''
+    const line = `${indent}${span.name} ${duration} ${span.status}${errName}`
+
+    return [line, ...span.children.map((child) => format(child, `${indent}  `))].join('\n')
+}
+
+export type OtlpAnyValue =
+    | { stringValue: string }
+    | { intValue: string }
+    | { doubleValue: number }
+    | { boolValue: boolean }
+
+export type OtlpKeyValue = {
+    key: string
+    value: OtlpAnyValue
+}
+
+export type OtlpSpan = {
+    traceId: string
+    spanId: string
+    parentSpanId?: string
+    name: string
+    kind: number
+    startTimeUnixNano: string
+    endTimeUnixNano: string
+    attributes: OtlpKeyValue[]
+    events: Array<{
+        timeUnixNano: string
+        name: string
+        attributes: OtlpKeyValue[]
+    }>
+    status: {
+        code: number
+        message?: string
+    }
+}
+
+export type OtlpTrace = {
+    resourceSpans: Array<{
+        resource: {
+            attributes: OtlpKeyValue[]
+        }
+        scopeSpans: Array<{
+            scope: {
+                name: string
+            }
+            spans: OtlpSpan[]
+        }>
+    }>
+}
+
+export type OtlpOptions = {
+    serviceName?: string
+}
+
+const toUnixNano = (ms: number): string => {
+    return (BigInt(Math.round(ms * 1000)) * BigInt(1000)).toString()
+}
+
+const toAnyValue = (value: string | number | boolean): OtlpAnyValue => {
+    if (typeof value === 'string') {
+        return { stringValue: value }
+    }
+
+    if (typeof value === 'boolean') {
+        return { boolValue: value }
+    }
+
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+}
+
+const toKeyValues = (attributes: Attributes): OtlpKeyValue[] => {
+    return Object.keys(attributes).map((key) => ({
+        key,
+        value: toAnyValue(attributes[key]),
+    }))
+}
+
+const STATUS_CODE_UNSET = 0
+const STATUS_CODE_OK = 1
+const STATUS_CODE_ERROR = 2
+const SPAN_KIND_INTERNAL = 1
+
+const toOtlpStatus = (span: Span): OtlpSpan['status'] => {
+    if (span.status === 'ok') {
+        return { code: STATUS_CODE_OK }
+    }
+
+    if (span.result?.type === 'err') {
+        return { code: STATUS_CODE_ERROR, message: span.result.name }
+    }
+
+    if (span.status === 'error') {
+        return {
+            code: STATUS_CODE_ERROR,
+            message: span.error instanceof Error ? span.error.message : String(span.error),
+        }
+    }
+
+    return { code: STATUS_CODE_UNSET, message: span.status }
+}
+
+const toOtlpSpans = (span: Span): OtlpSpan[] => {
+    const otlpSpan: OtlpSpan = {
+        traceId: span.traceId,
+        spanId: span.spanId,
+        parentSpanId: span.parentSpanId,
+        name: span.name,
+        kind: SPAN_KIND_INTERNAL,
+        startTimeUnixNano: toUnixNano(span.startTime),
+        endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+        attributes: toKeyValues({ ...span.attributes, 'koka.status': span.status }),
+        events: span.events.map((event) => ({
+            timeUnixNano: toUnixNano(event.time),
+            name: event.name ? `${event.type} ${event.name}` : event.type,
+            attributes: [],
+        })),
+        status: toOtlpStatus(span),
+    }
+
+    return [otlpSpan, ...span.children.flatMap(toOtlpSpans)]
+}
+
+/**
+ * export the spans in the OpenTelemetry OTLP/JSON format, e.g. to import into Jaeger for local inspection
+ */
+export const toOtlp = (spans: Span[], options?: OtlpOptions): OtlpTrace => {
+    return {
+        resourceSpans: [
+            {
+                resource: {
+                    attributes: toKeyValues({ 'service.name': options?.serviceName ?? 'koka' }),
+                },
+                scopeSpans: [
+                    {
+                        scope: {
+                            name: 'koka',
+                        },
+                        spans: spans.flatMap(toOtlpSpans),
+                    },
+                ],
+            },
+        ],
+    }
+}